@@ -0,0 +1,96 @@
+import { fal } from "@fal-ai/client";
+import { MockBackend, mockBackendOptions } from "./mock.js";
+
+export const BACKEND_NAMES = ["fal", "mock"] as const;
+export type BackendName = typeof BACKEND_NAMES[number];
+
+// Status of a queued request, as reported by the backend
+export interface QueueUpdate {
+  status: "IN_QUEUE" | "IN_PROGRESS" | "COMPLETED" | "CANCELLED";
+  queue_position?: number;
+  response_url?: string;
+  logs?: Array<{ message: string; level?: string; timestamp?: string }>;
+}
+
+export interface BackendResult {
+  data: unknown;
+  requestId: string;
+}
+
+export interface SubscribeOptions {
+  input: Record<string, unknown>;
+  abortSignal?: AbortSignal;
+  onEnqueue?: (requestId: string) => void;
+  onQueueUpdate?: (update: QueueUpdate) => void;
+}
+
+// Runs requests against the Ideogram V3 endpoints and hosts uploaded reference images
+export interface GenerationBackend {
+  readonly name: BackendName;
+  subscribe(endpoint: string, options: SubscribeOptions): Promise<BackendResult>;
+  submit(endpoint: string, options: { input: Record<string, unknown>; webhookUrl?: string }): Promise<{ request_id: string }>;
+  status(endpoint: string, options: { requestId: string; logs: boolean }): Promise<QueueUpdate>;
+  result(endpoint: string, options: { requestId: string }): Promise<BackendResult>;
+  cancel(endpoint: string, options: { requestId: string }): Promise<void>;
+  upload(file: Blob): Promise<string>;
+  describe(): string;
+}
+
+// The fal.ai client, authenticated with FAL_KEY
+export class FalBackend implements GenerationBackend {
+  readonly name = "fal" as const;
+
+  constructor(credentials: string) {
+    fal.config({ credentials });
+  }
+
+  async subscribe(endpoint: string, options: SubscribeOptions): Promise<BackendResult> {
+    const { onQueueUpdate, ...rest } = options;
+    const result = await fal.subscribe(endpoint, {
+      ...rest,
+      logs: true,
+      onQueueUpdate: onQueueUpdate && (update => onQueueUpdate(update as QueueUpdate))
+    });
+    return { data: result.data, requestId: result.requestId };
+  }
+
+  async submit(endpoint: string, options: { input: Record<string, unknown>; webhookUrl?: string }): Promise<{ request_id: string }> {
+    return fal.queue.submit(endpoint, options);
+  }
+
+  async status(endpoint: string, options: { requestId: string; logs: boolean }): Promise<QueueUpdate> {
+    return await fal.queue.status(endpoint, options) as QueueUpdate;
+  }
+
+  async result(endpoint: string, options: { requestId: string }): Promise<BackendResult> {
+    const result = await fal.queue.result(endpoint, options);
+    return { data: result.data, requestId: result.requestId };
+  }
+
+  async cancel(endpoint: string, options: { requestId: string }): Promise<void> {
+    await fal.queue.cancel(endpoint, options);
+  }
+
+  upload(file: Blob): Promise<string> {
+    return fal.storage.upload(file);
+  }
+
+  describe(): string {
+    return "fal.ai";
+  }
+}
+
+// Read which backend to use from IDEOGRAM_BACKEND
+export function backendName(env: NodeJS.ProcessEnv = process.env): BackendName {
+  const name = (env.IDEOGRAM_BACKEND || "fal").toLowerCase();
+  if (name === "fal" || name === "mock") return name;
+  throw new Error(`Invalid IDEOGRAM_BACKEND "${env.IDEOGRAM_BACKEND}". Expected "fal" or "mock"`);
+}
+
+// Create the selected backend; returns null for fal.ai without FAL_KEY
+export function createBackend(name: BackendName, env: NodeJS.ProcessEnv = process.env): GenerationBackend | null {
+  if (name === "mock") {
+    return new MockBackend(mockBackendOptions(env));
+  }
+  return env.FAL_KEY ? new FalBackend(env.FAL_KEY) : null;
+}
@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrandKitSchema, BrandKitSettings, SchemaResult, parseWithSchema } from "./schemas.js";
+
+// A stored brand kit
+export type BrandKit = BrandKitSettings & {
+  created_at: string;
+  updated_at: string;
+};
+
+// Request fields a brand kit can provide
+export const BRAND_KIT_FIELDS = ["negative_prompt", "style", "style_codes", "style_preset", "color_palette", "image_urls"] as const;
+
+// Fields that cannot be used together, whether they come from the kit or the call
+const CONFLICTING_FIELDS: Array<[string, string]> = [
+  ["style", "style_codes"],
+  ["style_codes", "image_urls"],
+  ["color_palette", "palette_image"]
+];
+
+export interface BrandKitMerge<T> {
+  request: T;
+  applied: string[];
+  overridden: string[];
+}
+
+// Empty strings and lists count as not set, so defaults such as negative_prompt "" do not hide kit values
+function isSet(value: unknown): boolean {
+  return value !== undefined && value !== "" && !(Array.isArray(value) && value.length === 0);
+}
+
+// Brand kits stored as one JSON file per kit, so they can also be edited by hand
+export class BrandKitStore {
+  constructor(private readonly dir: string) {}
+
+  private filePath(name: string): string {
+    return path.join(this.dir, `${name}.json`);
+  }
+
+  async get(name: string): Promise<BrandKit | undefined> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.filePath(name), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    const stored = JSON.parse(raw) as Partial<BrandKit>;
+    const parsed = parseWithSchema(BrandKitSchema, { ...stored, name });
+    if (!parsed.success) {
+      throw new Error(`Brand kit "${name}" in ${this.filePath(name)} is invalid. ${parsed.error}`);
+    }
+    return {
+      ...parsed.data,
+      created_at: stored.created_at ?? new Date(0).toISOString(),
+      updated_at: stored.updated_at ?? stored.created_at ?? new Date(0).toISOString()
+    };
+  }
+
+  // Kits that fail to load are skipped with a log message
+  async list(): Promise<BrandKit[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const kits: BrandKit[] = [];
+    for (const file of files.filter(file => file.endsWith('.json')).sort()) {
+      try {
+        const kit = await this.get(path.basename(file, '.json'));
+        if (kit) kits.push(kit);
+      } catch (error) {
+        console.error(`Skipping brand kit ${file}:`, error);
+      }
+    }
+    return kits;
+  }
+
+  async save(settings: BrandKitSettings): Promise<BrandKit> {
+    const existing = await this.get(settings.name).catch(() => undefined);
+    const now = new Date().toISOString();
+    const kit: BrandKit = { ...settings, created_at: existing?.created_at ?? now, updated_at: now };
+
+    // Write through a temp file so a crash never leaves a truncated kit
+    const target = this.filePath(settings.name);
+    const tempPath = `${target}.${process.pid}.tmp`;
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(kit, null, 2), 'utf8');
+    await fs.promises.rename(tempPath, target);
+    return kit;
+  }
+
+  async delete(name: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.filePath(name));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+}
+
+// Merge a brand kit into a request; values passed in the call win over the kit
+export function applyBrandKit<T extends Record<string, unknown>>(request: T, kit: BrandKit): SchemaResult<BrandKitMerge<T>> {
+  const conflicts: string[] = [];
+  for (const [a, b] of CONFLICTING_FIELDS) {
+    for (const [fromKit, fromCall] of [[a, b], [b, a]]) {
+      if (isSet(kit[fromKit as keyof BrandKit]) && isSet(request[fromCall]) && !isSet(request[fromKit])) {
+        conflicts.push(`- ${fromCall}: Brand kit "${kit.name}" sets '${fromKit}', which cannot be combined with '${fromCall}' from this call. Remove '${fromCall}' from the call or use a brand kit without '${fromKit}'.`);
+      }
+    }
+  }
+  if (conflicts.length > 0) {
+    return { success: false, error: `Conflicts with brand kit "${kit.name}":\n${conflicts.join('\n')}` };
+  }
+
+  const merged: Record<string, unknown> = { ...request };
+  const applied: string[] = [];
+  const overridden: string[] = [];
+  for (const field of BRAND_KIT_FIELDS) {
+    if (!isSet(kit[field])) continue;
+    if (isSet(request[field])) {
+      overridden.push(field);
+    } else {
+      merged[field] = kit[field];
+      applied.push(field);
+    }
+  }
+
+  return { success: true, data: { request: merged as T, applied, overridden } };
+}
+
+export function formatBrandKit(kit: BrandKit): string {
+  const lines = [`Brand Kit: ${kit.name}`];
+  if (kit.description) lines.push(`Description: ${kit.description}`);
+  if (kit.negative_prompt) lines.push(`Negative Prompt: "${kit.negative_prompt}"`);
+  if (kit.style) lines.push(`Style: ${kit.style}`);
+  if (kit.style_preset) lines.push(`Style Preset: ${kit.style_preset}`);
+  if (kit.style_codes && kit.style_codes.length > 0) lines.push(`Style Codes: ${kit.style_codes.join(', ')}`);
+  if (kit.color_palette) lines.push(`Color Palette: ${JSON.stringify(kit.color_palette)}`);
+  if (kit.image_urls && kit.image_urls.length > 0) lines.push(`Style Reference Images: ${kit.image_urls.join(', ')}`);
+  lines.push(`Created: ${kit.created_at}`);
+  lines.push(`Updated: ${kit.updated_at}`);
+  return lines.join('\n');
+}
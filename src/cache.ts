@@ -0,0 +1,212 @@
+import { createHash } from "crypto";
+import * as fs from 'fs';
+import * as path from 'path';
+import { HistoryImage } from "./history.js";
+
+export const CACHE_MODES = ["use", "refresh", "bypass"] as const;
+export type CacheMode = typeof CACHE_MODES[number];
+
+export interface CacheOptions {
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+// A stored result, keyed on the endpoint and its input
+export interface CachedResult {
+  key: string;
+  endpoint: string;
+  request_id: string;
+  seed?: number;
+  history_id?: string;
+  images: HistoryImage[];
+  created_at: string;
+  last_used_at: string;
+  hits: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  images: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  oldest?: string;
+  newest?: string;
+}
+
+function nonNegativeInt(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return value;
+}
+
+// Read cache limits from the environment; a TTL of 0 disables the cache
+export function cacheOptions(env: NodeJS.ProcessEnv = process.env): CacheOptions {
+  return {
+    ttlMs: nonNegativeInt(env, 'IDEOGRAM_CACHE_TTL', 7 * 24 * 60 * 60) * 1000,
+    maxEntries: nonNegativeInt(env, 'IDEOGRAM_CACHE_MAX_ENTRIES', 1000),
+    maxBytes: nonNegativeInt(env, 'IDEOGRAM_CACHE_MAX_BYTES', 1024 * 1024 * 1024)
+  };
+}
+
+// JSON with sorted object keys and without undefined values, so equal inputs serialize identically
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => item === undefined ? 'null' : canonicalJson(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function cacheKey(endpoint: string, input: Record<string, unknown>): string {
+  return createHash('sha256').update(canonicalJson({ endpoint, input })).digest('hex');
+}
+
+function entryBytes(entry: CachedResult): number {
+  return entry.images.reduce((sum, image) => sum + (image.file_size ?? 0), 0);
+}
+
+// Local files of an entry that were moved or deleted since it was stored
+async function missingFiles(entry: CachedResult): Promise<boolean> {
+  for (const image of entry.images) {
+    if (!image.local_path) continue;
+    try {
+      await fs.promises.access(image.local_path);
+    } catch {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Results of seeded generations, persisted in a JSON file and evicted least recently used first
+export class ResultCache {
+  private entries = new Map<string, CachedResult>();
+  private loaded = false;
+  private writing: Promise<void> = Promise.resolve();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(readonly filePath: string, readonly options: CacheOptions) {}
+
+  get enabled(): boolean {
+    return this.options.ttlMs > 0 && this.options.maxEntries > 0;
+  }
+
+  async get(key: string): Promise<CachedResult | undefined> {
+    await this.load();
+    const entry = this.entries.get(key);
+
+    if (!entry || this.isExpired(entry) || await missingFiles(entry)) {
+      if (entry) {
+        this.entries.delete(key);
+        await this.persist();
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    entry.hits++;
+    entry.last_used_at = new Date().toISOString();
+    await this.persist();
+    return entry;
+  }
+
+  async set(entry: Omit<CachedResult, "created_at" | "last_used_at" | "hits">): Promise<void> {
+    await this.load();
+    const now = new Date().toISOString();
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, { ...entry, created_at: now, last_used_at: now, hits: 0 });
+    this.evict();
+    await this.persist();
+  }
+
+  async stats(): Promise<CacheStats> {
+    await this.load();
+    const live = [...this.entries.values()].filter(entry => !this.isExpired(entry));
+    const created = live.map(entry => entry.created_at).sort();
+    return {
+      entries: live.length,
+      images: live.reduce((sum, entry) => sum + entry.images.length, 0),
+      bytes: live.reduce((sum, entry) => sum + entryBytes(entry), 0),
+      hits: this.hits,
+      misses: this.misses,
+      oldest: created[0],
+      newest: created[created.length - 1]
+    };
+  }
+
+  // Remove all entries, or only the expired ones; the image files are kept
+  async clear(expiredOnly = false): Promise<number> {
+    await this.load();
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (!expiredOnly || this.isExpired(entry)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    await this.persist();
+    return removed;
+  }
+
+  private isExpired(entry: CachedResult): boolean {
+    return Date.now() - Date.parse(entry.created_at) >= this.options.ttlMs;
+  }
+
+  // Drop expired entries, then the least recently used until the limits are met
+  private evict(): void {
+    for (const [key, entry] of this.entries) {
+      if (this.isExpired(entry)) this.entries.delete(key);
+    }
+
+    const byLastUse = [...this.entries.values()].sort((a, b) => a.last_used_at.localeCompare(b.last_used_at));
+    let bytes = byLastUse.reduce((sum, entry) => sum + entryBytes(entry), 0);
+    for (const entry of byLastUse) {
+      if (this.entries.size <= this.options.maxEntries && bytes <= this.options.maxBytes) break;
+      this.entries.delete(entry.key);
+      bytes -= entryBytes(entry);
+    }
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const raw = await fs.promises.readFile(this.filePath, 'utf8');
+      for (const entry of JSON.parse(raw) as CachedResult[]) {
+        this.entries.set(entry.key, entry);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load result cache from ${this.filePath}:`, error);
+      }
+    }
+  }
+
+  private persist(): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      const snapshot = JSON.stringify([...this.entries.values()], null, 2);
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, snapshot, 'utf8');
+      await fs.promises.rename(tempPath, this.filePath);
+    }).catch(error => {
+      console.error(`Failed to save result cache to ${this.filePath}:`, error);
+    });
+    return this.writing;
+  }
+}
@@ -0,0 +1,145 @@
+import { createHash } from "crypto";
+import * as http from 'http';
+import * as https from 'https';
+import { sniffImageType } from "./references.js";
+
+export interface DownloadOptions {
+  timeoutMs: number;
+  retries: number;
+  retryDelayMs: number;
+  concurrency: number;
+}
+
+export interface DownloadedFile {
+  data: Buffer;
+  contentType?: string;
+  sha256: string;
+}
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/jpg": "jpg",
+  "image/webp": "webp"
+};
+
+// Errors worth another attempt: network failures, timeouts, 5xx and 429 responses, truncated bodies
+class RetryableDownloadError extends Error {}
+
+function positiveNumber(env: NodeJS.ProcessEnv, name: string, fallback: number, allowZero = false): number {
+  const raw = env[name];
+  if (raw === undefined || raw === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0 || (!allowZero && value === 0)) {
+    throw new Error(`Invalid ${name} "${raw}"`);
+  }
+  return value;
+}
+
+// Read downloader settings from the environment
+export function downloadOptions(env: NodeJS.ProcessEnv = process.env): DownloadOptions {
+  return {
+    timeoutMs: positiveNumber(env, 'IDEOGRAM_DOWNLOAD_TIMEOUT', 60) * 1000,
+    retries: Math.floor(positiveNumber(env, 'IDEOGRAM_DOWNLOAD_RETRIES', 3, true)),
+    retryDelayMs: positiveNumber(env, 'IDEOGRAM_DOWNLOAD_RETRY_DELAY', 1, true) * 1000,
+    concurrency: Math.floor(positiveNumber(env, 'IDEOGRAM_DOWNLOAD_CONCURRENCY', 4))
+  };
+}
+
+// One GET request following redirects; the timeout covers the whole transfer
+function get(url: string, timeoutMs: number, redirects = 0): Promise<{ data: Buffer; contentType?: string; contentLength?: number }> {
+  return new Promise((resolve, reject) => {
+    const parsedUrl = new URL(url);
+    const client = parsedUrl.protocol === 'https:' ? https : http;
+
+    const request = client.get(parsedUrl, (response) => {
+      const status = response.statusCode ?? 0;
+
+      if (REDIRECT_STATUSES.has(status) && response.headers.location) {
+        response.resume();
+        clearTimeout(timer);
+        if (redirects >= MAX_REDIRECTS) {
+          reject(new Error(`Failed to download image: more than ${MAX_REDIRECTS} redirects`));
+          return;
+        }
+        get(new URL(response.headers.location, parsedUrl).toString(), timeoutMs, redirects + 1).then(resolve, reject);
+        return;
+      }
+
+      if (status !== 200) {
+        response.resume();
+        clearTimeout(timer);
+        const message = `Failed to download image: HTTP ${status}`;
+        reject(status >= 500 || status === 429 ? new RetryableDownloadError(message) : new Error(message));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('end', () => {
+        clearTimeout(timer);
+        const length = response.headers['content-length'];
+        resolve({
+          data: Buffer.concat(chunks),
+          contentType: response.headers['content-type']?.split(';')[0].trim(),
+          contentLength: length !== undefined ? Number(length) : undefined
+        });
+      });
+      response.on('error', (error) => reject(new RetryableDownloadError(error.message)));
+      response.on('aborted', () => reject(new RetryableDownloadError('Download was aborted')));
+    });
+
+    const timer = setTimeout(() => {
+      request.destroy(new RetryableDownloadError(`Download timed out after ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+
+    request.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error instanceof RetryableDownloadError ? error : new RetryableDownloadError(error.message));
+    });
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Download a file with redirects, a timeout and retries with exponential backoff.
+// The size is checked against Content-Length and the expected size reported by the API, when known
+export async function downloadFile(url: string, options: DownloadOptions, expectedSize?: number): Promise<DownloadedFile> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { data, contentType, contentLength } = await get(url, options.timeoutMs);
+
+      if (contentLength !== undefined && !Number.isNaN(contentLength) && data.length !== contentLength) {
+        throw new RetryableDownloadError(`Download was truncated: received ${data.length} of ${contentLength} bytes`);
+      }
+      if (expectedSize && data.length !== expectedSize) {
+        throw new RetryableDownloadError(`Downloaded ${data.length} bytes but the API reported ${expectedSize}`);
+      }
+
+      return { data, contentType, sha256: createHash('sha256').update(data).digest('hex') };
+    } catch (error) {
+      if (!(error instanceof RetryableDownloadError) || attempt >= options.retries) {
+        throw error;
+      }
+
+      const delay = options.retryDelayMs * 2 ** attempt;
+      console.error(`Download of ${url} failed (${error.message}), retrying in ${delay}ms (${attempt + 1}/${options.retries})`);
+      await sleep(delay);
+    }
+  }
+}
+
+// Content type of image bytes: magic bytes first, then the reported type
+export function detectContentType(data: Buffer | null, reported?: string): string {
+  return (data && sniffImageType(data)) || reported || 'image/png';
+}
+
+export function extensionFor(contentType: string): string {
+  return EXTENSIONS[contentType.toLowerCase()] ?? 'png';
+}
@@ -0,0 +1,236 @@
+import { randomUUID } from "crypto";
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatAxisValue } from "./matrix.js";
+
+export interface HistoryImage {
+  index: number;
+  url: string;
+  local_path: string | null;
+  storage_location: string | null;
+  content_type: string;
+  file_size?: number;
+  sha256?: string;
+  width?: number;
+  height?: number;
+  derived?: HistoryDerivedImage[];
+}
+
+// A post-processed copy stored next to an image
+export interface HistoryDerivedImage {
+  kind: "processed" | "thumbnail";
+  local_path: string | null;
+  storage_location: string;
+  content_type: string;
+  width: number;
+  height: number;
+  file_size: number;
+}
+
+// What a variation changed about its parent
+export interface HistoryVariation {
+  parameter: string;
+  value: unknown;
+}
+
+// One generation call as recorded in the history file
+export interface HistoryEntry {
+  id: string;
+  tool: string;
+  created_at: string;
+  // Recorded since variations re-run entries; older entries only have the tool
+  endpoint?: string;
+  request_id?: string;
+  prompt?: string;
+  negative_prompt?: string;
+  image_url?: string;
+  mask_url?: string;
+  strength?: number;
+  image_size?: unknown;
+  rendering_speed?: string;
+  style?: string;
+  style_codes?: string[];
+  style_preset?: string;
+  color_palette?: unknown;
+  image_urls?: string[];
+  expand_prompt?: boolean;
+  num_images?: number;
+  seed?: number;
+  // The entry this one is a variation of
+  parent_id?: string;
+  variation?: HistoryVariation;
+  images: HistoryImage[];
+}
+
+// The entries an entry was derived from, root first, and its direct variations
+export interface HistoryLineage {
+  ancestors: HistoryEntry[];
+  children: HistoryEntry[];
+}
+
+export interface HistoryFilter {
+  text?: string;
+  style?: string;
+  style_preset?: string;
+  tool?: string;
+  parent_id?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+// Append-only JSONL log of every generation, one entry per line
+export class HistoryStore {
+  constructor(private readonly filePath: string) {}
+
+  async record(entry: Omit<HistoryEntry, "id" | "created_at">): Promise<HistoryEntry> {
+    const stored: HistoryEntry = {
+      id: randomUUID(),
+      created_at: new Date().toISOString(),
+      ...entry
+    };
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, JSON.stringify(stored) + '\n', 'utf8');
+    return stored;
+  }
+
+  async all(): Promise<HistoryEntry[]> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: HistoryEntry[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        console.error(`Skipping corrupt history line in ${this.filePath}`);
+      }
+    }
+    return entries;
+  }
+
+  // Newest entries first
+  async search(filter: HistoryFilter): Promise<HistoryEntry[]> {
+    const text = filter.text?.toLowerCase();
+    const from = filter.from ? parseDateBound(filter.from, "from") : undefined;
+    const to = filter.to ? parseDateBound(filter.to, "to") : undefined;
+
+    const matches = (await this.all()).filter(entry => {
+      if (text) {
+        const haystack = `${entry.prompt ?? ''}\n${entry.negative_prompt ?? ''}`.toLowerCase();
+        if (!haystack.includes(text)) return false;
+      }
+      if (filter.style && entry.style !== filter.style) return false;
+      if (filter.style_preset && entry.style_preset !== filter.style_preset) return false;
+      if (filter.tool && entry.tool !== filter.tool) return false;
+      if (filter.parent_id && entry.parent_id !== filter.parent_id) return false;
+
+      const created = Date.parse(entry.created_at);
+      if (from !== undefined && created < from) return false;
+      if (to !== undefined && created > to) return false;
+      return true;
+    });
+
+    return matches.reverse().slice(0, filter.limit ?? 20);
+  }
+
+  // Look up by history ID or fal request ID
+  async get(id: string): Promise<HistoryEntry | undefined> {
+    const entries = await this.all();
+    return entries.find(entry => entry.id === id) ?? entries.find(entry => entry.request_id === id);
+  }
+
+  async lineage(entry: HistoryEntry): Promise<HistoryLineage> {
+    const entries = await this.all();
+    const byId = new Map(entries.map(item => [item.id, item]));
+
+    const ancestors: HistoryEntry[] = [];
+    let parent = entry.parent_id ? byId.get(entry.parent_id) : undefined;
+    // A hand-edited file could contain a cycle
+    while (parent && parent.id !== entry.id && !ancestors.includes(parent)) {
+      ancestors.unshift(parent);
+      parent = parent.parent_id ? byId.get(parent.parent_id) : undefined;
+    }
+
+    return { ancestors, children: entries.filter(item => item.parent_id === entry.id) };
+  }
+}
+
+// Date-only bounds cover the whole day: "from" starts at 00:00, "to" ends at 23:59:59.999
+export function parseDateBound(value: string, bound: "from" | "to"): number {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const timestamp = Date.parse(dateOnly && bound === "to" ? `${value}T23:59:59.999Z` : value);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid '${bound}' date: ${value}. Use ISO 8601, e.g. 2025-01-31 or 2025-01-31T12:00:00Z`);
+  }
+  return timestamp;
+}
+
+export function formatHistoryEntry(entry: HistoryEntry): string {
+  const lines = [
+    `History ID: ${entry.id}`,
+    `Created: ${entry.created_at}`,
+    `Tool: ${entry.tool}`
+  ];
+  if (entry.request_id) lines.push(`Request ID: ${entry.request_id}`);
+  if (entry.parent_id) lines.push(`Variation Of: ${entry.parent_id}`);
+  if (entry.variation) lines.push(`Varied: ${formatVariation(entry.variation)}`);
+  if (entry.prompt) lines.push(`Prompt: "${entry.prompt}"`);
+  if (entry.negative_prompt) lines.push(`Negative Prompt: "${entry.negative_prompt}"`);
+  if (entry.image_url) lines.push(`Source Image: ${entry.image_url}`);
+  if (entry.mask_url) lines.push(`Mask: ${entry.mask_url}`);
+  if (entry.strength !== undefined) lines.push(`Strength: ${entry.strength}`);
+  if (entry.image_size) {
+    const size = entry.image_size as { width?: number; height?: number } | string;
+    lines.push(`Image Size: ${typeof size === 'string' ? size : `${size.width}x${size.height}`}`);
+  }
+  if (entry.rendering_speed) lines.push(`Rendering Speed: ${entry.rendering_speed}`);
+  if (entry.style) lines.push(`Style: ${entry.style}`);
+  if (entry.style_preset) lines.push(`Style Preset: ${entry.style_preset}`);
+  if (entry.style_codes && entry.style_codes.length > 0) lines.push(`Style Codes: ${entry.style_codes.join(', ')}`);
+  if (entry.color_palette) lines.push(`Color Palette: ${JSON.stringify(entry.color_palette)}`);
+  if (entry.image_urls && entry.image_urls.length > 0) lines.push(`Style Reference Images: ${entry.image_urls.join(', ')}`);
+  if (entry.expand_prompt !== undefined) lines.push(`Expand Prompt: ${entry.expand_prompt}`);
+  lines.push(entry.seed !== undefined ? `Seed: ${entry.seed}` : 'Seed: Unknown');
+
+  for (const image of entry.images) {
+    lines.push(`Image ${image.index}:`);
+    if (image.local_path) {
+      lines.push(`  Local Path: ${image.local_path}`);
+    } else if (image.storage_location) {
+      lines.push(`  Storage Location: ${image.storage_location}`);
+    }
+    lines.push(`  Original URL: ${image.url}`);
+    for (const derived of image.derived ?? []) {
+      lines.push(`  ${derived.kind === "thumbnail" ? 'Thumbnail' : 'Processed'}: ${derived.local_path ?? derived.storage_location}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function formatVariation(variation: HistoryVariation): string {
+  return `${variation.parameter} = ${formatAxisValue(variation.value)}`;
+}
+
+// One line per entry of a lineage, for listing parents and variations
+export function formatLineage(lineage: HistoryLineage): string {
+  const line = (entry: HistoryEntry) => {
+    const details = [entry.tool, entry.created_at];
+    if (entry.variation) details.push(formatVariation(entry.variation));
+    if (entry.seed !== undefined && entry.variation?.parameter !== "seed") details.push(`seed ${entry.seed}`);
+    return `  ${entry.id} (${details.join(', ')})`;
+  };
+  const lines = [
+    lineage.ancestors.length > 0 ? `Ancestors (root first):\n${lineage.ancestors.map(line).join('\n')}` : 'Ancestors: none',
+    lineage.children.length > 0 ? `Variations:\n${lineage.children.map(line).join('\n')}` : 'Variations: none'
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,233 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import * as http from 'http';
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authTokens: string[];
+}
+
+// One connected client: its transport, the MCP server instance serving it and the token that created it
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  clientId?: string;
+}
+
+const MCP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Read the transport selection; returns null for the default stdio transport
+export function httpTransportOptions(env: NodeJS.ProcessEnv = process.env): HttpTransportOptions | null {
+  const transport = (env.IDEOGRAM_TRANSPORT || "stdio").toLowerCase();
+  if (transport === "stdio") return null;
+  if (transport !== "http") {
+    throw new Error(`Invalid IDEOGRAM_TRANSPORT "${env.IDEOGRAM_TRANSPORT}". Expected "stdio" or "http"`);
+  }
+
+  const port = Number(env.IDEOGRAM_HTTP_PORT || 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid IDEOGRAM_HTTP_PORT "${env.IDEOGRAM_HTTP_PORT}"`);
+  }
+
+  return {
+    host: env.IDEOGRAM_HTTP_HOST || "127.0.0.1",
+    port,
+    authTokens: (env.IDEOGRAM_HTTP_AUTH_TOKENS || "").split(',').map(token => token.trim()).filter(Boolean)
+  };
+}
+
+function isAuthorized(request: http.IncomingMessage, tokens: string[]): boolean {
+  if (tokens.length === 0) return true;
+
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.authorization ?? '');
+  if (!match) return false;
+
+  const presented = Buffer.from(match[1].trim());
+  return tokens.some(token => {
+    const expected = Buffer.from(token);
+    return expected.length === presented.length && timingSafeEqual(expected, presented);
+  });
+}
+
+// Pass the token to the tool handlers as auth info; the client ID is a hash, so usage can be tracked per token without storing it
+function attachAuthInfo(request: http.IncomingMessage & { auth?: AuthInfo }, tokens: string[]): void {
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.authorization ?? '');
+  if (tokens.length === 0 || !match) return;
+
+  const token = match[1].trim();
+  request.auth = { token, clientId: `token-${createHash('sha256').update(token).digest('hex').slice(0, 12)}`, scopes: [] };
+}
+
+// A session only answers to the token that created it; other tokens are told it does not exist
+function ownsSession(request: http.IncomingMessage & { auth?: AuthInfo }, session: Session): boolean {
+  return session.clientId === request.auth?.clientId;
+}
+
+function readJsonBody(request: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body is too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : undefined);
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+// JSON-RPC error body used by the MCP endpoints
+function sendRpcError(response: http.ServerResponse, status: number, message: string): void {
+  sendJson(response, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+// Serve MCP over Streamable HTTP (/mcp) and the legacy HTTP+SSE transport (/sse, /messages)
+export async function startHttpTransport(
+  options: HttpTransportOptions,
+  createServer: () => McpServer,
+  health: () => Record<string, unknown>
+): Promise<http.Server> {
+  const sessions = new Map<string, Session>();
+
+  async function handleStreamable(request: http.IncomingMessage & { auth?: AuthInfo }, response: http.ServerResponse): Promise<void> {
+    const sessionId = request.headers['mcp-session-id'];
+    const body = request.method === 'POST' ? await readJsonBody(request) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport) || !ownsSession(request, session)) {
+        sendRpcError(response, 404, `Unknown session: ${sessionId}`);
+        return;
+      }
+      await session.transport.handleRequest(request, response, body);
+      return;
+    }
+
+    // New sessions start with an initialize request
+    if (request.method !== 'POST' || !isInitializeRequest(body)) {
+      sendRpcError(response, 400, 'No valid session ID provided');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, clientId: request.auth?.clientId });
+        console.error(`HTTP session started: ${id}`);
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        console.error(`HTTP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(request, response, body);
+    } finally {
+      // A server whose session never started is not in the map, so nothing else would close it
+      if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+        await server.close().catch(error => console.error('Error closing MCP server of a failed session:', error));
+      }
+    }
+  }
+
+  async function handleSse(request: http.IncomingMessage & { auth?: AuthInfo }, response: http.ServerResponse): Promise<void> {
+    const server = createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, response);
+    sessions.set(transport.sessionId, { transport, server, clientId: request.auth?.clientId });
+    console.error(`SSE session started: ${transport.sessionId}`);
+
+    response.on('close', () => {
+      sessions.delete(transport.sessionId);
+      console.error(`SSE session closed: ${transport.sessionId}`);
+    });
+
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(request: http.IncomingMessage & { auth?: AuthInfo }, response: http.ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport) || !ownsSession(request, session)) {
+      sendRpcError(response, 404, `Unknown session: ${sessionId}`);
+      return;
+    }
+    await session.transport.handlePostMessage(request, response, await readJsonBody(request));
+  }
+
+  const httpServer = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    try {
+      // Anyone may check that the server is up; the sessions, backend and storage are only shown to authorized clients
+      if (url.pathname === HEALTH_PATH && request.method === 'GET') {
+        sendJson(response, 200, isAuthorized(request, options.authTokens) ? { status: "ok", sessions: sessions.size, ...health() } : { status: "ok" });
+        return;
+      }
+
+      if (!isAuthorized(request, options.authTokens)) {
+        sendRpcError(response, 401, 'Unauthorized');
+        return;
+      }
+      attachAuthInfo(request, options.authTokens);
+
+      if (url.pathname === MCP_PATH) {
+        await handleStreamable(request, response);
+      } else if (url.pathname === SSE_PATH && request.method === 'GET') {
+        await handleSse(request, response);
+      } else if (url.pathname === SSE_MESSAGES_PATH && request.method === 'POST') {
+        await handleSseMessage(request, response, url);
+      } else {
+        sendJson(response, 404, { error: "Not found" });
+      }
+    } catch (error) {
+      console.error('Error handling HTTP request:', error);
+      if (!response.headersSent) {
+        sendRpcError(response, 500, error instanceof Error ? error.message : 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  if (options.authTokens.length === 0) {
+    console.error('Warning: IDEOGRAM_HTTP_AUTH_TOKENS is not set, the HTTP transport accepts unauthenticated requests');
+  }
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  console.error(`MCP server listening on http://${options.host}:${port} (Streamable HTTP: ${MCP_PATH}, SSE: ${SSE_PATH})`);
+
+  return httpServer;
+}
@@ -2,27 +2,68 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
-import { fal } from "@fal-ai/client";
-import { writeFile } from "fs/promises";
 import * as fs from 'fs';
 import * as path from 'path';
-import * as https from 'https';
-import * as http from 'http';
+import { LocalStorageBackend, createStorageBackend, StorageBackend, StoredImage } from "./storage.js";
+import { HistoryDerivedImage, HistoryEntry, HistoryImage, HistoryStore, formatHistoryEntry, formatLineage, formatVariation } from "./history.js";
+import { dataPath } from "./paths.js";
+import { registerImageResources } from "./resources.js";
+import { InlineImageOptions, inlineImageDefaults, toInlineImage } from "./inline.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { MAX_MATRIX_CELLS, MatrixAxesSchema, expandMatrix, formatAxisValue } from "./matrix.js";
+import { DEFAULT_QUEUE_POLL_INTERVAL, JOB_STATUSES, JobStatus, JobStore, TrackedJob, formatJob, isPending, queuePollInterval } from "./jobs.js";
+import { BrandKitNameSchema, BrandKitSchema, ColorPalette, EditParams, EditRequestSchema, GenerateRequestSchema, GenerationParams, ReframeParams, ReframeRequestSchema, RemixParams, RemixRequestSchema, ReplaceBackgroundParams, ReplaceBackgroundRequestSchema, ReferenceImageSchema, STYLES, STYLE_PRESETS, SchemaResult, TemplateNameSchema, brandKitShape, editRequestShape, generateRequestShape, optionalDefaults, parseWithSchema, reframeRequestShape, remixRequestShape, replaceBackgroundRequestShape, sizeRequestShape } from "./schemas.js";
+import { HttpTransportOptions, httpTransportOptions, startHttpTransport } from "./http.js";
+import { FalWebhookPayload, WebhookDeliveryResult, WebhookServerOptions, startWebhookServer, webhookServerOptions } from "./webhook.js";
+import { BrandKitMerge, BrandKitStore, applyBrandKit, formatBrandKit } from "./brandkits.js";
+import { GenerationMetadata, MetadataMode, embedMetadata, metadataMode, readEmbeddedMetadata, readMetadataFile, sidecarPath } from "./metadata.js";
+import { DownloadOptions, detectContentType, downloadFile, downloadOptions, extensionFor } from "./download.js";
+import { ProgressReporter, ToolExtra } from "./progress.js";
+import { BackendName, GenerationBackend, backendName, createBackend } from "./backend.js";
+import { LINT_MODES, formatPromptLint, lintBlocks, lintPrompt } from "./lint.js";
+import { registerTemplatePrompts } from "./prompts.js";
+import { SizeRequest, formatSizeResolution, resolveSizeRequest } from "./sizes.js";
+import { TemplateMerge, TemplateStore, VariableValue, applyTemplate } from "./templates.js";
+import { MAX_VARIATIONS, SEED_STRATEGIES, VariationSweepSchema, entryEndpoint, entryParameters, planVariations } from "./variations.js";
+import { BudgetStatus, RenderingSpeed, UsageContext, UsageLedger, UsageOptions, UsageTotals, formatUsd, usageContext, usageOptions } from "./usage.js";
+import { CACHE_MODES, CacheMode, CacheOptions, CachedResult, ResultCache, cacheKey, cacheOptions } from "./cache.js";
+import { ImageOutput, brandKitDeleteOutputShape, brandKitListOutputShape, brandKitOutputShape, cacheClearOutputShape,
+  cacheStatsOutputShape, generateOutputShape, historyGetOutputShape, historySearchOutputShape, matrixOutputShape, paletteOutputShape, postprocessOutputShape, promptLintOutputShape, queueCancelOutputShape, queueListOutputShape, queueResultOutputShape, queueStatusOutputShape, queueSubmitOutputShape, reproduceOutputShape, runOutputShape, usageReportOutputShape, variationsOutputShape, withErrorContent } from "./output.js";
+import { DerivedFile, PostprocessOptions, PostprocessSchema, derivedFilename, postprocessImage } from "./postprocess.js";
+import { ReferenceUploader, checkMaskDimensions, imageDimensions, isRemoteUrl, readImageSource, resolveFilePath, sniffImageType } from "./references.js";
+import { DEFAULT_PALETTE_COLORS, MAX_PALETTE_COLORS, extractPalette, formatPalette, toHexColor } from "./palette.js";
+
+// Select the backend that runs generations: fal.ai, or the offline mock
+let selectedBackend: BackendName = "fal";
+
+try {
+  selectedBackend = backendName();
+} catch (error) {
+  console.error(`Backend settings are invalid, using fal.ai: ${error instanceof Error ? error.message : error}`);
+}
+
+let backend: GenerationBackend | null = null;
 
-// Check for required environment variable
-const FAL_KEY = process.env.FAL_KEY;
-let falConfigured = false;
+try {
+  backend = createBackend(selectedBackend);
+} catch (error) {
+  console.error(`Generation backend is misconfigured: ${error instanceof Error ? error.message : error}`);
+}
 
-if (!FAL_KEY) {
+if (backend) {
+  console.error(`Generation backend: ${backend.describe()}`);
+} else if (selectedBackend === "fal") {
   console.error('FAL_KEY environment variable is required');
   console.error('Please set your fal.ai API key: export FAL_KEY=your_api_key_here');
   // Server continues running, no process.exit()
-} else {
-  // Configure fal.ai client
-  fal.config({
-    credentials: FAL_KEY
-  });
-  falConfigured = true;
+}
+
+// The configured backend, for code paths that tool handlers only reach once it is checked
+function requireBackend(): GenerationBackend {
+  if (!backend) {
+    throw new Error("FAL_KEY environment variable is not set. Please configure your fal.ai API key.");
+  }
+  return backend;
 }
 
 // Define types based on fal-ai/ideogram/v3 API documentation
@@ -36,786 +77,3144 @@ interface IdeogramImageResult {
   seed?: number;
 }
 
-// Define input schema types
-interface ImageSize {
+// Configure where downloaded images are stored
+let storage: StorageBackend | null = null;
+let storageError: string | null = null;
+
+try {
+  storage = createStorageBackend();
+  console.error(`Image storage: ${storage.describe()}`);
+} catch (error) {
+  storageError = error instanceof Error ? error.message : String(error);
+  console.error(`Image storage is misconfigured: ${storageError}`);
+  // Server continues running, images are reported by URL only
+}
+
+// Server default for returning images as inline MCP image content
+let inlineDefaults: InlineImageOptions & { enabled: boolean } = { enabled: false, maxDimension: 1024, maxBytes: 4 * 1024 * 1024 };
+
+try {
+  inlineDefaults = inlineImageDefaults();
+} catch (error) {
+  console.error(`Inline image settings are invalid, using defaults: ${error instanceof Error ? error.message : error}`);
+}
+
+// How generation metadata is written alongside downloaded images
+let metadataWriteMode: MetadataMode = "embed";
+
+try {
+  metadataWriteMode = metadataMode();
+} catch (error) {
+  console.error(`Metadata settings are invalid, embedding metadata: ${error instanceof Error ? error.message : error}`);
+}
+
+// Provenance of a run; every downloaded image adds its own index
+type RunMetadata = Omit<GenerationMetadata, "image_index">;
+
+// Timeouts, retries and parallelism of image downloads
+let downloadSettings: DownloadOptions = { timeoutMs: 60000, retries: 3, retryDelayMs: 1000, concurrency: 4 };
+
+try {
+  downloadSettings = downloadOptions();
+} catch (error) {
+  console.error(`Download settings are invalid, using defaults: ${error instanceof Error ? error.message : error}`);
+}
+
+// Results of seeded generations, returned again for identical requests
+let cacheSettings: CacheOptions = { ttlMs: 7 * 24 * 60 * 60 * 1000, maxEntries: 1000, maxBytes: 1024 * 1024 * 1024 };
+
+try {
+  cacheSettings = cacheOptions();
+} catch (error) {
+  console.error(`Cache settings are invalid, using defaults: ${error instanceof Error ? error.message : error}`);
+}
+
+// Mock results and uploads are kept apart, so they are never served for fal.ai requests
+const resultCache = new ResultCache(dataPath(selectedBackend === "mock" ? 'mock-cache.json' : 'cache.json'), cacheSettings);
+
+// Estimated prices and budgets of the usage ledger
+let usageSettings: UsageOptions = { prices: { TURBO: 0.03, BALANCED: 0.06, QUALITY: 0.09 }, budgets: {} };
+
+try {
+  usageSettings = usageOptions();
+} catch (error) {
+  console.error(`Usage settings are invalid, using default prices without budgets: ${error instanceof Error ? error.message : error}`);
+}
+
+// Mock calls cost nothing, so they are kept out of the real spending
+const usageLedger = new UsageLedger(dataPath(selectedBackend === "mock" ? 'mock-usage.jsonl' : 'usage.jsonl'), usageSettings);
+
+interface DownloadedImage {
+  url: string;
+  localPath: string | null;
+  stored: StoredImage | null;
+  data: Buffer | null;
+  index: number;
+  content_type: string;
+  file_name: string;
+  file_size?: number;
+  sha256?: string;
+  width?: number;
+  height?: number;
+  filename: string;
+  derived?: DerivedImage[];
+  postprocessError?: string;
+}
+
+// A post-processed copy of a downloaded image
+interface DerivedImage {
+  kind: DerivedFile["kind"];
+  filename: string;
+  stored: StoredImage;
+  content_type: string;
   width: number;
   height: number;
+  file_size: number;
 }
 
-interface RGBColor {
-  r: number;
-  g: number;
-  b: number;
+// Download image function
+async function downloadImage(image: IdeogramImageResult["images"][number], filenameFor: (contentType: string) => string, metadata?: GenerationMetadata): Promise<{ stored: StoredImage; data: Buffer; filename: string; contentType: string; sha256: string; width?: number; height?: number }> {
+  if (!storage) {
+    throw new Error(`Image storage is not available: ${storageError}`);
+  }
+
+  const file = await downloadFile(image.url, downloadSettings, image.file_size);
+  const contentType = detectContentType(file.data, image.content_type || file.contentType);
+  const filename = filenameFor(contentType);
+  const { stored, data } = await saveImage(storage, filename, file.data, contentType, metadata);
+  const dimensions = await imageDimensions(data);
+
+  return { stored, data, filename, contentType, sha256: file.sha256, ...dimensions };
 }
 
-interface ColorPaletteMember {
-  rgb: RGBColor;
-  color_weight?: number;
+// Write an image with its generation metadata: embedded in the file, or in a sidecar for formats without metadata support
+async function saveImage(target: StorageBackend, filename: string, data: Buffer, contentType: string, metadata?: GenerationMetadata): Promise<{ stored: StoredImage; data: Buffer }> {
+  let writeSidecar = !!metadata && (metadataWriteMode === "sidecar" || metadataWriteMode === "both");
+
+  if (metadata && (metadataWriteMode === "embed" || metadataWriteMode === "both") && !readEmbeddedMetadata(data)) {
+    const embedded = embedMetadata(data, metadata);
+    if (embedded) {
+      data = embedded;
+    } else {
+      writeSidecar = true;
+    }
+  }
+
+  const stored = await target.save(filename, data, contentType);
+
+  if (writeSidecar) {
+    try {
+      await target.save(sidecarPath(filename), Buffer.from(JSON.stringify(metadata, null, 2), 'utf8'), 'application/json');
+    } catch (error) {
+      console.error(`Failed to write metadata sidecar for ${filename}:`, error);
+    }
+  }
+
+  return { stored, data };
 }
 
-interface ColorPalette {
-  members?: ColorPaletteMember[];
-  name?: "EMBER" | "FRESH" | "JUNGLE" | "MAGIC" | "MELON" | "MOSAIC" | "PASTEL" | "ULTRAMARINE";
+// Post-process an image and store the derived files next to it
+async function deriveImages(target: StorageBackend, filename: string, data: Buffer, options: PostprocessOptions, metadata?: GenerationMetadata): Promise<DerivedImage[]> {
+  const derived: DerivedImage[] = [];
+
+  for (const file of await postprocessImage(data, options)) {
+    const derivedName = derivedFilename(filename, file);
+    const { stored, data: written } = await saveImage(target, derivedName, file.data, file.contentType, options.strip_metadata ? undefined : metadata);
+    derived.push({
+      kind: file.kind,
+      filename: derivedName,
+      stored,
+      content_type: file.contentType,
+      width: file.width,
+      height: file.height,
+      file_size: written.length
+    });
+  }
+
+  return derived;
 }
 
-// Download image function
-async function downloadImage(url: string, filename: string): Promise<string> {
-  return new Promise((resolve, reject) => {
+// Download every image of a result into the configured storage backend, a few at a time
+async function downloadImages(output: IdeogramImageResult, namePrefix: string, metadata?: RunMetadata, postprocess?: PostprocessOptions, progress?: ProgressReporter): Promise<DownloadedImage[]> {
+  console.error("Downloading images locally...");
+  let finished = 0;
+  const reportDownloaded = () => progress?.report(`Downloaded image ${++finished} of ${output.images.length}`);
+
+  return mapWithConcurrency(output.images, downloadSettings.concurrency, async (image, i): Promise<DownloadedImage> => {
+    // The extension follows the actual content type once the bytes are known
+    const filenameFor = (contentType: string) => generateImageFilename(namePrefix, i + 1, output.seed, extensionFor(contentType));
+
     try {
-      const parsedUrl = new URL(url);
-      const client = parsedUrl.protocol === 'https:' ? https : http;
-      
-      // Create images directory if it doesn't exist
-      const imagesDir = path.join(process.cwd(), 'images');
-      if (!fs.existsSync(imagesDir)) {
-        fs.mkdirSync(imagesDir, { recursive: true });
+      const imageMetadata = metadata && { ...metadata, image_index: i + 1 };
+      const { stored, data, filename, contentType, sha256, width, height } = await downloadImage(image, filenameFor, imageMetadata);
+      console.error(`Downloaded: ${stored.location}`);
+
+      // Post-processing failures are reported without failing the download
+      let derived: DerivedImage[] | undefined;
+      let postprocessError: string | undefined;
+      if (postprocess && storage) {
+        try {
+          derived = await deriveImages(storage, filename, data, postprocess, imageMetadata);
+        } catch (error) {
+          console.error(`Failed to post-process image ${i + 1}:`, error);
+          postprocessError = error instanceof Error ? error.message : String(error);
+        }
       }
-      
-      const filePath = path.join(imagesDir, filename);
-      const file = fs.createWriteStream(filePath);
-      
-      client.get(url, (response) => {
-        if (response.statusCode !== 200) {
-          reject(new Error(`Failed to download image: HTTP ${response.statusCode}`));
-          return;
-        }
-        
-        response.pipe(file);
-        
-        file.on('finish', () => {
-          file.close();
-          resolve(filePath);
-        });
-        
-        file.on('error', (err) => {
-          fs.unlink(filePath, () => {}); // Delete partial file
-          reject(err);
-        });
-      }).on('error', (err) => {
-        reject(err);
-      });
+
+      await reportDownloaded();
+      return {
+        url: image.url,
+        localPath: stored.localPath ?? null,
+        stored,
+        data,
+        index: i + 1,
+        content_type: contentType,
+        file_name: image.file_name || filename,
+        file_size: image.file_size ?? data.length,
+        sha256,
+        width,
+        height,
+        filename,
+        derived,
+        postprocessError
+      };
+    } catch (downloadError) {
+      console.error(`Failed to download image ${i + 1}:`, downloadError);
+
+      // Still add the image info without a storage location
+      const contentType = detectContentType(null, image.content_type);
+      const filename = filenameFor(contentType);
+      await reportDownloaded();
+      return {
+        url: image.url,
+        localPath: null,
+        stored: null,
+        data: null,
+        index: i + 1,
+        content_type: contentType,
+        file_name: image.file_name || filename,
+        file_size: image.file_size,
+        filename
+      };
+    }
+  });
+}
+
+// Format the per-image section of a tool response
+function formatImageDetails(downloadedImages: DownloadedImage[]): string {
+  return downloadedImages.map(img => {
+    let details = `Image ${img.index}:`;
+    if (img.localPath) {
+      details += `\n  Local Path: ${img.localPath}`;
+    } else if (img.stored) {
+      details += `\n  Storage Location: ${img.stored.location}`;
+      if (img.stored.url) {
+        details += `\n  Storage URL: ${img.stored.url}`;
+      }
+    }
+    details += `\n  Original URL: ${img.url}`;
+    details += `\n  Filename: ${img.filename}`;
+    details += `\n  Content Type: ${img.content_type}`;
+    if (img.width && img.height) {
+      details += `\n  Dimensions: ${img.width}x${img.height}`;
+    }
+    if (img.file_size) {
+      details += `\n  File Size: ${img.file_size} bytes`;
+    }
+    if (img.sha256) {
+      details += `\n  SHA-256: ${img.sha256}`;
+    }
+    for (const derived of img.derived ?? []) {
+      details += `\n  ${derived.kind === "thumbnail" ? 'Thumbnail' : 'Processed'}: ${derived.stored.localPath ?? derived.stored.location} (${derived.width}x${derived.height}, ${derived.content_type}, ${derived.file_size} bytes)`;
+    }
+    if (img.postprocessError) {
+      details += `\n  Post-processing failed: ${img.postprocessError}`;
+    }
+    return details;
+  }).join('\n\n');
+}
+
+// Closing line of a tool response summarising where images went
+function formatStorageSummary(downloadedImages: DownloadedImage[]): string {
+  if (storage && downloadedImages.some(img => img.stored)) {
+    return `Images have been saved to the ${storage.describe()}.`;
+  }
+  return 'Note: Local download failed, but original URLs are available.';
+}
+
+// Build image content blocks for the downloaded images, splitting the byte budget between them
+async function buildImageContent(downloadedImages: DownloadedImage[]) {
+  const blocks: Array<{ type: "image"; data: string; mimeType: string }> = [];
+  const notes: string[] = [];
+  const options: InlineImageOptions = {
+    maxDimension: inlineDefaults.maxDimension,
+    maxBytes: Math.floor(inlineDefaults.maxBytes / Math.max(downloadedImages.length, 1))
+  };
+
+  for (const img of downloadedImages) {
+    if (!img.data) {
+      notes.push(`Image ${img.index} was not downloaded and is not included inline.`);
+      continue;
+    }
+
+    try {
+      const inline = await toInlineImage(img.data, img.content_type, options);
+      if (!inline) {
+        notes.push(`Image ${img.index} could not be reduced below ${options.maxBytes} bytes and is not included inline.`);
+        continue;
+      }
+      if (inline.resized) {
+        notes.push(`Image ${img.index} is shown downscaled to ${inline.width}x${inline.height} (${inline.mimeType}).`);
+      }
+      blocks.push({ type: "image", data: inline.data, mimeType: inline.mimeType });
     } catch (error) {
-      reject(error);
+      console.error(`Failed to prepare inline image ${img.index}:`, error);
+      notes.push(`Image ${img.index} could not be prepared for inline display.`);
+    }
+  }
+
+  return { blocks, notes };
+}
+
+// Persistent record of every generation
+const history = new HistoryStore(process.env.IDEOGRAM_HISTORY_FILE || dataPath('history.jsonl'));
+
+// Record a generation without letting history failures break the tool call
+async function recordHistory(entry: Omit<HistoryEntry, "id" | "created_at">): Promise<HistoryEntry | null> {
+  try {
+    const stored = await history.record(entry);
+    if (stored.images.some(img => img.local_path || img.storage_location)) {
+      // New images are listed as resources
+      for (const server of activeServers) {
+        server.sendResourceListChanged();
+      }
+    }
+    return stored;
+  } catch (error) {
+    console.error('Failed to record generation history:', error);
+    return null;
+  }
+}
+
+function toHistoryImages(downloadedImages: DownloadedImage[]): HistoryEntry["images"] {
+  return downloadedImages.map(img => ({
+    index: img.index,
+    url: img.url,
+    local_path: img.localPath,
+    storage_location: img.stored?.location ?? null,
+    content_type: img.content_type,
+    file_size: img.file_size,
+    sha256: img.sha256,
+    width: img.width,
+    height: img.height,
+    derived: img.derived?.map(toHistoryDerivedImage)
+  }));
+}
+
+function toHistoryDerivedImage(derived: DerivedImage): HistoryDerivedImage {
+  return {
+    kind: derived.kind,
+    local_path: derived.stored.localPath ?? null,
+    storage_location: derived.stored.location,
+    content_type: derived.content_type,
+    width: derived.width,
+    height: derived.height,
+    file_size: derived.file_size
+  };
+}
+
+interface GenerationRun {
+  endpoint: string;
+  // The input sent to fal.ai, after uploads and defaults
+  input: Record<string, unknown>;
+  result: { requestId: string };
+  output: IdeogramImageResult;
+  downloadedImages: DownloadedImage[];
+  historyEntry: HistoryEntry | null;
+  cached?: CachedResult;
+}
+
+// Per-call options of a run besides the endpoint input
+interface RunOptions {
+  postprocess?: PostprocessOptions;
+  // Only runs with a cache mode consult the result cache
+  cache?: CacheMode;
+  progress?: ProgressReporter;
+  // Aborted when the client cancels the tool call
+  signal?: AbortSignal;
+  // Who the estimated cost is charged to
+  usage?: UsageContext;
+}
+
+// Prepare input for fal.ai API
+function buildFalInput(params: GenerationParams): Record<string, unknown> {
+  const input: Record<string, unknown> = {
+    prompt: params.prompt,
+    negative_prompt: params.negative_prompt,
+    image_size: params.image_size,
+    rendering_speed: params.rendering_speed,
+    expand_prompt: params.expand_prompt,
+    num_images: params.num_images,
+    sync_mode: params.sync_mode
+  };
+
+  // Add optional parameters if provided
+  if (params.style) input.style = params.style;
+  if (params.style_codes && params.style_codes.length > 0) input.style_codes = params.style_codes;
+  if (params.style_preset) input.style_preset = params.style_preset;
+  if (params.color_palette) input.color_palette = params.color_palette;
+  if (params.image_urls && params.image_urls.length > 0) input.image_urls = params.image_urls;
+  if (params.seed !== undefined) input.seed = params.seed;
+
+  return input;
+}
+
+// Local files and data URIs used as style references are uploaded to fal storage. Mock uploads are held in memory
+// and die with the process, so their URLs are not cached across restarts
+const referenceUploader = new ReferenceUploader(selectedBackend === "mock" ? null : dataPath('uploads.json'), file => requireBackend().upload(file));
+
+// Upload local references, or for a dry run only look up earlier uploads
+function resolveReferences(references: string[], dryRun: boolean, maxTotalBytes?: number): Promise<string[]> {
+  return dryRun ? referenceUploader.preview(references, maxTotalBytes) : referenceUploader.resolve(references, maxTotalBytes);
+}
+
+// Prepare input for fal.ai API, uploading local reference images first
+async function resolveFalInput(params: GenerationParams, dryRun = false): Promise<Record<string, unknown>> {
+  const input = buildFalInput(params);
+  if (params.image_urls && params.image_urls.length > 0) {
+    input.image_urls = await resolveReferences(params.image_urls, dryRun);
+  }
+  return input;
+}
+
+// A reference as stored in history: data URIs are replaced by the URL they were uploaded to, so they are not recorded in full
+function recordedReference(given: string, sent: unknown): string {
+  return given.startsWith('data:') && typeof sent === 'string' ? sent : given;
+}
+
+function recordedReferences(given: string[] | undefined, sent: unknown): string[] | undefined {
+  return given?.map((reference, i) => recordedReference(reference, Array.isArray(sent) ? sent[i] : undefined));
+}
+
+// The generation parameters as stored in history, with references as they appear in the resolved input
+function historyFields(params: GenerationParams, input: Record<string, unknown> = params) {
+  return {
+    prompt: params.prompt,
+    negative_prompt: params.negative_prompt,
+    image_size: params.image_size,
+    rendering_speed: params.rendering_speed,
+    style: params.style,
+    style_codes: params.style_codes,
+    style_preset: params.style_preset,
+    color_palette: params.color_palette,
+    image_urls: recordedReferences(params.image_urls, input.image_urls),
+    expand_prompt: params.expand_prompt,
+    num_images: params.num_images
+  };
+}
+
+// History fields of a tracked queue job, from the parameters it was submitted with
+function historyFieldsFromJob(job: TrackedJob) {
+  const parsed = GenerateRequestSchema.safeParse(job.params);
+  return parsed.success ? historyFields(parsed.data) : { prompt: job.prompt };
+}
+
+// Replace palette_image with the color palette extracted from that image
+async function applyPaletteImage<T extends { palette_image?: string; palette_colors?: number; color_palette?: ColorPalette }>(params: T): Promise<T> {
+  if (!params.palette_image) return params;
+
+  const data = await readImageSource(params.palette_image, downloadSettings.timeoutMs);
+  const members = await extractPalette(data, params.palette_colors ?? DEFAULT_PALETTE_COLORS);
+  console.error(`Extracted ${members.length} color(s) from ${params.palette_image}`);
+  return { ...params, palette_image: undefined, palette_colors: undefined, color_palette: { members } };
+}
+
+// Parameters recorded in history for a run, besides the request ID, seed and images
+type HistoryFields = Omit<HistoryEntry, "id" | "created_at" | "tool" | "request_id" | "images">;
+
+// Call an Ideogram V3 endpoint end to end: call fal.ai, download the images and record history
+async function runEndpoint(endpoint: string, input: Record<string, unknown>, tool: string, fields: HistoryFields, namePrefix: string, options: RunOptions = {}): Promise<GenerationRun> {
+  // Without a seed every call gives new images, so only seeded inputs are cached
+  const key = options.cache && options.cache !== "bypass" && input.seed !== undefined && resultCache.enabled
+    ? cacheKey(endpoint, input)
+    : undefined;
+
+  if (key && options.cache === "use") {
+    const cached = await resultCache.get(key);
+    if (cached) {
+      console.error(`Returning cached result of ${endpoint} request ${cached.request_id}`);
+      return restoreCachedRun(cached, input, options.postprocess);
+    }
+  }
+
+  console.error(`Generating image with ${endpoint}${fields.prompt ? ` - prompt: "${fields.prompt}"` : ''}`);
+
+  const { progress, signal } = options;
+  signal?.throwIfAborted();
+
+  // Rejected here when the estimated cost would exceed a budget
+  const reservation = await usageLedger.reserve(usageLedger.estimate(tool, endpoint, input), options.usage ?? usageContext());
+
+  // A cancelled tool call also cancels the fal.ai request, if it was queued already
+  let falRequestId: string | undefined;
+  const cancelRequest = () => {
+    if (!falRequestId) return;
+    console.error(`Tool call cancelled, cancelling ${endpoint} request ${falRequestId}`);
+    requireBackend().cancel(endpoint, { requestId: falRequestId }).catch(error => {
+      console.error(`Failed to cancel request ${falRequestId}:`, error);
+    });
+  };
+  signal?.addEventListener('abort', cancelRequest, { once: true });
+
+  // Call the fal.ai endpoint
+  let logsSeen = 0;
+  let result;
+  try {
+    result = await requireBackend().subscribe(endpoint, {
+      input,
+      abortSignal: signal,
+      onEnqueue: (requestId: string) => {
+        falRequestId = requestId;
+        void progress?.report(`Submitted request ${requestId}`);
+      },
+      onQueueUpdate: (update) => {
+        if (update.status === "IN_QUEUE") {
+          void progress?.report(update.queue_position !== undefined ? `Waiting in queue at position ${update.queue_position}` : 'Waiting in queue');
+        } else if (update.status === "IN_PROGRESS") {
+          // Every update repeats the earlier logs
+          const logs = update.logs ?? [];
+          logs.slice(logsSeen).forEach(log => console.error(log.message));
+          logsSeen = Math.max(logsSeen, logs.length);
+          void progress?.report(logs.length > 0 ? `Generating: ${logs[logs.length - 1].message}` : 'Generating');
+        } else if (update.status === "COMPLETED") {
+          void progress?.report('Generation completed, downloading images');
+        }
+      },
+    });
+  } catch (error) {
+    // A request that reached fal.ai is charged even when the call failed or was cancelled afterwards
+    if (falRequestId) {
+      await usageLedger.commit(reservation, falRequestId).catch(commitError => {
+        console.error(`Failed to record usage of request ${falRequestId}:`, commitError);
+      });
+    } else {
+      usageLedger.release(reservation);
+    }
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', cancelRequest);
+  }
+
+  await usageLedger.commit(reservation, result.requestId);
+  signal?.throwIfAborted();
+  const output = result.data as IdeogramImageResult;
+
+  // Download images locally
+  const downloadedImages = await downloadImages(output, namePrefix, {
+    model: endpoint,
+    tool,
+    request_id: result.requestId,
+    seed: output.seed ?? fields.seed,
+    created_at: new Date().toISOString(),
+    input
+  }, options.postprocess, progress);
+
+  const historyEntry = await recordHistory({
+    tool,
+    endpoint,
+    request_id: result.requestId,
+    ...fields,
+    seed: output.seed ?? fields.seed,
+    images: toHistoryImages(downloadedImages)
+  });
+
+  // Only results with every image stored can be served again
+  if (key && downloadedImages.length > 0 && downloadedImages.every(img => img.stored)) {
+    await resultCache.set({
+      key,
+      endpoint,
+      request_id: result.requestId,
+      seed: output.seed ?? fields.seed,
+      history_id: historyEntry?.id,
+      images: toHistoryImages(downloadedImages)
+    });
+  }
+
+  return { endpoint, input, result, output, downloadedImages, historyEntry };
+}
+
+// Rebuild a run from a cache entry, post-processing the stored images when requested
+async function restoreCachedRun(cached: CachedResult, input: Record<string, unknown>, postprocess?: PostprocessOptions): Promise<GenerationRun> {
+  const downloadedImages = await restoreDownloadedImages(cached.images, true);
+
+  if (postprocess && storage) {
+    for (const img of downloadedImages) {
+      if (!img.data) continue;
+      try {
+        img.derived = await deriveImages(storage, img.filename, img.data, postprocess, readEmbeddedMetadata(img.data) ?? undefined);
+      } catch (error) {
+        console.error(`Failed to post-process image ${img.index}:`, error);
+        img.postprocessError = error instanceof Error ? error.message : String(error);
+      }
     }
+  }
+
+  const historyEntry = cached.history_id ? await history.get(cached.history_id).catch(() => undefined) : undefined;
+
+  return {
+    endpoint: cached.endpoint,
+    input,
+    result: { requestId: cached.request_id },
+    output: { images: cached.images.map(image => ({ url: image.url, content_type: image.content_type, file_size: image.file_size })), seed: cached.seed },
+    downloadedImages,
+    historyEntry: historyEntry ?? null,
+    cached
+  };
+}
+
+// An endpoint call with its input resolved, ready to run
+interface PreparedRun {
+  endpoint: string;
+  input: Record<string, unknown>;
+  fields: HistoryFields;
+  namePrefix: string;
+}
+
+// Resolve the input of a text-to-image generation; a dry run uploads nothing
+async function prepareGeneration(params: GenerationParams, dryRun = false): Promise<PreparedRun> {
+  params = await applyPaletteImage(params);
+  const input = await resolveFalInput(params, dryRun);
+  return { endpoint: "fal-ai/ideogram/v3", input, fields: { ...historyFields(params, input), seed: params.seed }, namePrefix: params.prompt };
+}
+
+// Run a text-to-image generation with fal-ai/ideogram/v3
+async function runGeneration(params: GenerationParams, tool: string, options: RunOptions = {}): Promise<GenerationRun> {
+  const { endpoint, input, fields, namePrefix } = await prepareGeneration(params);
+  return runEndpoint(endpoint, input, tool, fields, namePrefix, options);
+}
+
+// Parameters shared by the image-to-image endpoints
+type ImageEndpointParams = (EditParams | RemixParams | ReframeParams | ReplaceBackgroundParams) & { mask_url?: string };
+
+// Prepare input for an image-to-image endpoint, uploading local source, mask and reference images
+async function resolveImageEndpointInput(params: ImageEndpointParams, dryRun = false): Promise<Record<string, unknown>> {
+  const input: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) continue;
+    input[key] = value;
+  }
+
+  // The source image and mask are not part of the style reference size limit
+  const sources = await resolveReferences(params.mask_url ? [params.image_url, params.mask_url] : [params.image_url], dryRun, Infinity);
+  input.image_url = sources[0];
+  if (params.mask_url) input.mask_url = sources[1];
+
+  if (params.image_urls && params.image_urls.length > 0) {
+    input.image_urls = await resolveReferences(params.image_urls, dryRun);
+  }
+  return input;
+}
+
+// Resolve the input of an image-to-image endpoint; a dry run uploads nothing
+async function prepareImageEndpoint(endpoint: string, params: ImageEndpointParams, tool: string, dryRun = false): Promise<PreparedRun> {
+  if (params.mask_url) {
+    await checkMaskDimensions(params.image_url, params.mask_url, downloadSettings.timeoutMs);
+  }
+
+  params = await applyPaletteImage(params);
+  const input = await resolveImageEndpointInput(params, dryRun);
+  const prompt = "prompt" in params ? params.prompt : undefined;
+  const fields: HistoryFields = {
+    prompt,
+    negative_prompt: "negative_prompt" in params ? params.negative_prompt : undefined,
+    image_url: recordedReference(params.image_url, input.image_url),
+    mask_url: params.mask_url && recordedReference(params.mask_url, input.mask_url),
+    strength: "strength" in params ? params.strength : undefined,
+    image_size: "image_size" in params ? params.image_size : undefined,
+    rendering_speed: params.rendering_speed,
+    style: "style" in params ? params.style : undefined,
+    style_codes: params.style_codes,
+    color_palette: params.color_palette,
+    image_urls: recordedReferences(params.image_urls, input.image_urls),
+    expand_prompt: "expand_prompt" in params ? params.expand_prompt : undefined,
+    num_images: params.num_images,
+    seed: params.seed
+  };
+
+  return { endpoint, input, fields, namePrefix: prompt ?? tool.replace(/^ideogram_v3_/, '') };
+}
+
+// Run one of the image-to-image endpoints (edit, remix, reframe, replace-background)
+async function runImageEndpoint(endpoint: string, params: ImageEndpointParams, tool: string, options: RunOptions = {}): Promise<GenerationRun> {
+  const { input, fields, namePrefix } = await prepareImageEndpoint(endpoint, params, tool);
+  return runEndpoint(endpoint, input, tool, fields, namePrefix, options);
+}
+
+// Local images in a resolved input, which are only uploaded when the request runs
+function pendingUploads(input: Record<string, unknown>): string[] {
+  const images = [input.image_url, input.mask_url, ...(Array.isArray(input.image_urls) ? input.image_urls : [])];
+  return images.filter((image): image is string => typeof image === 'string' && !isRemoteUrl(image));
+}
+
+// Tool response for a dry run: the request that would be sent, without calling the backend
+function formatDryRunResponse(settings: string[], prepared: PreparedRun, extraOutput: Record<string, unknown> = {}) {
+  const uploads = pendingUploads(prepared.input);
+
+  const responseText = `Dry run: nothing was sent to ${prepared.endpoint}.
+
+${settings.filter(Boolean).join('\n')}
+
+Request payload:
+${JSON.stringify(prepared.input, null, 2)}
+${uploads.length > 0 ? `\n${uploads.length} local image(s) are shown as given, data URIs by their content hash; they are uploaded to fal storage when the request runs.` : ''}`;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: responseText
+      }
+    ],
+    structuredContent: { dry_run: true, endpoint: prepared.endpoint, parameters: prepared.input, ...extraOutput }
+  };
+}
+
+// Human readable image size
+function formatImageSize(imageSize: GenerationParams["image_size"]): string {
+  return typeof imageSize === 'string' ? imageSize : `${imageSize.width}x${imageSize.height}`;
+}
+
+// Response lines for the style parameters shared by every endpoint
+function formatStyleSettings(params: { style?: string; style_preset?: string; style_codes?: string[]; color_palette?: GenerationParams["color_palette"]; image_urls?: string[] }): string[] {
+  return [
+    params.style ? `Style: ${params.style}` : '',
+    params.style_preset ? `Style Preset: ${params.style_preset}` : '',
+    params.style_codes && params.style_codes.length > 0 ? `Style Codes: ${params.style_codes.join(', ')}` : '',
+    params.color_palette ? `Color Palette: ${params.color_palette.name || 'Custom'}` : '',
+    params.image_urls && params.image_urls.length > 0 ? `Style Reference Images: ${params.image_urls.length}` : ''
+  ];
+}
+
+// Structured fields describing the images of a response
+function toImageOutputs(downloadedImages: DownloadedImage[]): ImageOutput[] {
+  return toHistoryImages(downloadedImages).map((image, i) => ({
+    ...image,
+    storage_url: downloadedImages[i].stored?.url,
+    postprocess_error: downloadedImages[i].postprocessError
+  }));
+}
+
+function runOutput(run: GenerationRun) {
+  return {
+    endpoint: run.endpoint,
+    request_id: run.result.requestId,
+    seed: run.output.seed,
+    history_id: run.historyEntry?.id,
+    cached: !!run.cached,
+    parameters: run.input,
+    images: toImageOutputs(run.downloadedImages)
+  };
+}
+
+// Tool response for a finished run: the settings used, the images and optionally the inline image data
+async function formatRunResponse(heading: string, settings: string[], run: GenerationRun, includeImageData: boolean, extraOutput: Record<string, unknown> = {}) {
+  const { result, output, downloadedImages, historyEntry, cached } = run;
+
+  const responseText = `${heading}:
+
+${settings.filter(Boolean).join('\n')}
+${output.seed ? `Seed: ${output.seed}` : 'Seed: Auto-generated'}
+Request ID: ${result.requestId}
+${historyEntry ? `History ID: ${historyEntry.id}` : ''}
+${cached ? `Served from the result cache: an identical request was generated at ${cached.created_at}. Pass cache: "refresh" to generate again.` : ''}
+
+Generated Images:
+${formatImageDetails(downloadedImages)}
+
+${formatStorageSummary(downloadedImages)}`;
+
+  const { blocks: imageBlocks, notes: inlineNotes } = includeImageData
+    ? await buildImageContent(downloadedImages)
+    : { blocks: [], notes: [] };
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: inlineNotes.length > 0 ? `${responseText}\n\n${inlineNotes.join('\n')}` : responseText
+      },
+      ...imageBlocks
+    ],
+    structuredContent: { ...runOutput(run), ...extraOutput }
+  };
+}
+
+// Tracked queue submissions
+const jobs = new JobStore(dataPath('jobs.json'));
+
+// How often pending queue jobs are polled; 0 disables the background poller
+let queuePollIntervalMs = DEFAULT_QUEUE_POLL_INTERVAL * 1000;
+
+try {
+  queuePollIntervalMs = queuePollInterval();
+} catch (error) {
+  console.error(`Queue poll interval is invalid, polling every ${DEFAULT_QUEUE_POLL_INTERVAL}s: ${error instanceof Error ? error.message : error}`);
+}
+
+// A job is marked FAILED after this many consecutive polling errors
+const MAX_POLL_FAILURES = 5;
+
+interface QueuedResult {
+  output: IdeogramImageResult;
+  downloadedImages: DownloadedImage[];
+  historyEntry: HistoryEntry | null;
+  fromLocalCopy: boolean;
+}
+
+// Download the images of a completed queue request and mark the tracked job as done
+async function storeQueuedOutput(requestId: string, output: IdeogramImageResult, tool: string): Promise<QueuedResult> {
+  const job = await jobs.get(requestId);
+
+  // Download images locally
+  const downloadedImages = await downloadImages(output, job?.prompt ?? `queue_result_${requestId}`, job && {
+    model: "fal-ai/ideogram/v3",
+    tool,
+    request_id: requestId,
+    seed: output.seed,
+    created_at: new Date().toISOString(),
+    input: job.params
+  }, job?.postprocess);
+
+  const historyEntry = await recordHistory({
+    tool,
+    endpoint: "fal-ai/ideogram/v3",
+    request_id: requestId,
+    ...(job ? historyFieldsFromJob(job) : {}),
+    seed: output.seed,
+    images: toHistoryImages(downloadedImages)
   });
+
+  if (job) {
+    await jobs.update(requestId, { status: "DOWNLOADED", history_id: historyEntry?.id, error: undefined });
+  }
+
+  return { output, downloadedImages, historyEntry, fromLocalCopy: false };
 }
 
-// Generate safe filename for images
-function generateImageFilename(prompt: string, index: number, seed?: number): string {
-  const safePrompt = prompt
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, '')
-    .replace(/\s+/g, '_')
-    .substring(0, 50);
-  
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-  const seedStr = seed ? `_${seed}` : '';
-  return `ideogram_v3_${safePrompt}${seedStr}_${index}_${timestamp}.png`;
+// Fetch a completed queue result from fal.ai and store it
+async function collectQueuedResult(requestId: string, tool: string): Promise<QueuedResult> {
+  const result = await requireBackend().result("fal-ai/ideogram/v3", {
+    requestId
+  });
+
+  return storeQueuedOutput(requestId, result.data as IdeogramImageResult, tool);
+}
+
+// Results currently being downloaded, so the poller, webhooks and tool calls never fetch the same request twice
+const resultsInFlight = new Map<string, Promise<QueuedResult>>();
+
+function withResultLock(requestId: string, fetchResult: () => Promise<QueuedResult>): Promise<QueuedResult> {
+  const existing = resultsInFlight.get(requestId);
+  if (existing) return existing;
+
+  const pending = fetchResult().finally(() => resultsInFlight.delete(requestId));
+  resultsInFlight.set(requestId, pending);
+  return pending;
+}
+
+// Rebuild downloaded images from their history records, reading the stored files when the data is needed
+async function restoreDownloadedImages(images: HistoryImage[], withData: boolean): Promise<DownloadedImage[]> {
+  const downloadedImages: DownloadedImage[] = [];
+
+  for (const image of images) {
+    let data: Buffer | null = null;
+    if (withData && image.local_path) {
+      data = await fs.promises.readFile(image.local_path).catch(() => null);
+    } else if (withData && image.storage_location && storage) {
+      data = await storage.read(image.storage_location).catch(() => null);
+    }
+
+    downloadedImages.push({
+      url: image.url,
+      localPath: image.local_path,
+      stored: image.storage_location
+        ? { backend: image.local_path ? "local" : "s3", location: image.storage_location, localPath: image.local_path ?? undefined }
+        : null,
+      data,
+      index: image.index,
+      content_type: image.content_type,
+      file_name: path.basename(image.local_path ?? image.storage_location ?? image.url),
+      file_size: image.file_size,
+      sha256: image.sha256,
+      width: image.width,
+      height: image.height,
+      filename: path.basename(image.local_path ?? image.storage_location ?? image.url),
+      derived: image.derived?.map(derived => ({
+        kind: derived.kind,
+        filename: path.basename(derived.local_path ?? derived.storage_location),
+        stored: { backend: derived.local_path ? "local" : "s3", location: derived.storage_location, localPath: derived.local_path ?? undefined },
+        content_type: derived.content_type,
+        width: derived.width,
+        height: derived.height,
+        file_size: derived.file_size
+      }))
+    });
+  }
+
+  return downloadedImages;
+}
+
+// Rebuild a queue result from the history entry written when its images were downloaded
+async function restoreQueuedResult(entry: HistoryEntry, withData: boolean): Promise<QueuedResult> {
+  return {
+    output: { images: entry.images.map(image => ({ url: image.url, content_type: image.content_type, file_size: image.file_size })), seed: entry.seed },
+    downloadedImages: await restoreDownloadedImages(entry.images, withData),
+    historyEntry: entry,
+    fromLocalCopy: true
+  };
+}
+
+// Check every pending job once, downloading results of the ones that completed
+let pollInProgress = false;
+
+async function pollQueuedJobs(): Promise<void> {
+  if (pollInProgress || !backend) return;
+  pollInProgress = true;
+
+  try {
+    const pending = (await jobs.list()).filter(isPending);
+
+    for (const job of pending) {
+      if (resultsInFlight.has(job.request_id)) continue;
+
+      try {
+        if (job.status !== "COMPLETED") {
+          const status = await requireBackend().status("fal-ai/ideogram/v3", {
+            requestId: job.request_id,
+            logs: false
+          });
+          await jobs.update(job.request_id, {
+            status: status.status as JobStatus,
+            queue_position: status.queue_position,
+            poll_failures: 0
+          });
+          if (status.status !== "COMPLETED") continue;
+        }
+
+        await withResultLock(job.request_id, () => collectQueuedResult(job.request_id, "ideogram_v3_generate_queue"));
+        console.error(`Downloaded results of queued request ${job.request_id}`);
+      } catch (error) {
+        const failures = job.poll_failures + 1;
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to poll queued request ${job.request_id} (${failures}/${MAX_POLL_FAILURES}):`, message);
+        await jobs.update(job.request_id, {
+          poll_failures: failures,
+          error: message,
+          ...(failures >= MAX_POLL_FAILURES ? { status: "FAILED" as const } : {})
+        });
+      }
+    }
+  } finally {
+    pollInProgress = false;
+  }
+}
+
+// Resume polling jobs left pending by a previous run, then keep polling on an interval
+function startQueuePoller(): void {
+  if (queuePollIntervalMs <= 0) {
+    console.error('Queue poller disabled (IDEOGRAM_QUEUE_POLL_INTERVAL=0)');
+    return;
+  }
+
+  pollQueuedJobs().catch(error => console.error('Queue poller error:', error));
+  setInterval(() => {
+    pollQueuedJobs().catch(error => console.error('Queue poller error:', error));
+  }, queuePollIntervalMs).unref();
 }
 
-// Create MCP server
-const server = new McpServer({
-  name: "fal-ideogram-v3-server",
-  version: "1.0.0",
-});
+// Embedded listener for fal.ai webhook callbacks
+let webhookOptions: WebhookServerOptions | null = null;
+
+try {
+  webhookOptions = webhookServerOptions();
+} catch (error) {
+  console.error(`Webhook listener is misconfigured and will not start: ${error instanceof Error ? error.message : error}`);
+}
+
+// Match a webhook delivery to its tracked job and download the result in the background
+async function handleWebhookDelivery(delivery: FalWebhookPayload): Promise<WebhookDeliveryResult> {
+  const requestId = delivery.request_id;
+  const job = await jobs.get(requestId);
+  if (!job) {
+    console.error(`Ignoring webhook for unknown request ${requestId}`);
+    return "unknown_request";
+  }
+
+  if (delivery.status !== "OK") {
+    const message = delivery.error || "Generation failed";
+    console.error(`Webhook reported failure for request ${requestId}: ${message}`);
+    await jobs.update(requestId, { status: job.status === "CANCELLED" || job.cancel_requested_at ? "CANCELLED" : "FAILED", error: message });
+    return "accepted";
+  }
+
+  if (job.status === "DOWNLOADED") return "accepted";
+  await jobs.update(requestId, { status: "COMPLETED" });
+
+  // Large payloads are not inlined in the webhook body and have to be fetched from the queue
+  const output = delivery.payload as IdeogramImageResult | undefined;
+  const fetchResult = output && Array.isArray(output.images)
+    ? () => storeQueuedOutput(requestId, output, "ideogram_v3_webhook")
+    : () => collectQueuedResult(requestId, "ideogram_v3_webhook");
+
+  withResultLock(requestId, fetchResult)
+    .then(() => console.error(`Downloaded results of queued request ${requestId} from webhook`))
+    .catch(async (error) => {
+      console.error(`Failed to download webhook result for ${requestId}:`, error);
+      await jobs.update(requestId, { error: error instanceof Error ? error.message : String(error) });
+    });
+
+  return "accepted";
+}
+
+// Endpoints whose generations can be re-run from file metadata, with the schema of their input
+const REPRODUCIBLE_ENDPOINTS: Record<string, z.ZodTypeAny> = {
+  "fal-ai/ideogram/v3": GenerateRequestSchema,
+  "fal-ai/ideogram/v3/edit": EditRequestSchema,
+  "fal-ai/ideogram/v3/remix": RemixRequestSchema,
+  "fal-ai/ideogram/v3/reframe": ReframeRequestSchema,
+  "fal-ai/ideogram/v3/replace-background": ReplaceBackgroundRequestSchema
+};
+
+// Shared handler of the image-to-image tools: validate, run the endpoint and format the response
+async function handleImageEndpointTool<T extends ImageEndpointParams>(
+  tool: string,
+  endpoint: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  args: { include_image_data?: boolean; postprocess?: PostprocessOptions; dry_run?: boolean; image_size?: unknown } & SizeRequest,
+  extra: ToolExtra,
+  describeSettings: (params: T) => string[]
+) {
+  const { include_image_data = inlineDefaults.enabled, postprocess: requestedPostprocess, dry_run, aspect_ratio, target_size, allow_upscale, target_fit, ...request } = args;
+
+  // Check if fal.ai client is configured; a dry run does not need it
+  if (!backend && !dry_run) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
+      }],
+      isError: true
+    };
+  }
+
+  // Resolve aspect_ratio or target_size to the closest supported image_size
+  const sized = resolveSizeRequest({ aspect_ratio, target_size, allow_upscale, target_fit }, request, requestedPostprocess);
+  if (!sized.success) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Error: ${sized.error}`
+      }],
+      isError: true
+    };
+  }
+  const { postprocess, resolution } = sized.data;
+
+  // Validate combinations of parameters that the input schema cannot express
+  const parsed = parseWithSchema(schema, sized.data.request);
+  if (!parsed.success) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Error: ${parsed.error}`
+      }],
+      isError: true
+    };
+  }
+
+  const params = parsed.data;
+  const settings = [
+    ...describeSettings(params),
+    resolution ? formatSizeResolution(resolution) : '',
+    `Rendering Speed: ${params.rendering_speed}`,
+    ...formatStyleSettings(params)
+  ];
+
+  try {
+    if (dry_run) {
+      return formatDryRunResponse(settings, await prepareImageEndpoint(endpoint, params, tool, true), { size_resolution: resolution });
+    }
+
+    const run = await runImageEndpoint(endpoint, params, tool, { postprocess, progress: new ProgressReporter(extra), signal: extra.signal, usage: usageContext(extra) });
+
+    return await formatRunResponse(`Successfully generated ${run.downloadedImages.length} image(s) using ${endpoint}`, settings, run, include_image_data, { size_resolution: resolution });
+
+  } catch (error) {
+    console.error(`Error running ${endpoint}:`, error);
+
+    let errorMessage = `Failed to generate image with ${endpoint}.`;
+    if (error instanceof Error) {
+      errorMessage += ` Error: ${error.message}`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: errorMessage
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+// Brand kits referenced by the generate tools
+const brandKits = new BrandKitStore(process.env.IDEOGRAM_BRAND_KITS_DIR || dataPath('brand-kits'));
+
+// Merge the named brand kit into a request before it is validated
+async function mergeBrandKit<T extends Record<string, unknown>>(name: string | undefined, request: T): Promise<SchemaResult<BrandKitMerge<T>>> {
+  if (!name) {
+    return { success: true, data: { request, applied: [], overridden: [] } };
+  }
+
+  try {
+    const kit = await brandKits.get(name);
+    if (!kit) {
+      return { success: false, error: `Unknown brand kit "${name}". Use ideogram_v3_brandkit_list to see the available brand kits.` };
+    }
+    return applyBrandKit(request, kit);
+  } catch (error) {
+    console.error(`Error loading brand kit ${name}:`, error);
+    return { success: false, error: `Failed to load brand kit "${name}". ${error instanceof Error ? error.message : error}` };
+  }
+}
+
+// Prompt templates published as MCP prompts and used through the template parameter
+const templates = new TemplateStore(process.env.IDEOGRAM_TEMPLATES_DIR || dataPath('templates'));
+
+// Render the named template into a request; its defaults only fill what the call and the brand kit left unset
+async function mergeTemplate<T extends Record<string, unknown>>(name: string | undefined, variables: Record<string, VariableValue> | undefined, request: T): Promise<SchemaResult<TemplateMerge<T>>> {
+  if (!name) {
+    if (variables) {
+      return { success: false, error: "variables can only be used together with template." };
+    }
+    return { success: true, data: { request, variables: {}, applied: [] } };
+  }
+  if (request.prompt !== undefined) {
+    return { success: false, error: "Cannot use both 'prompt' and 'template'. The template renders the prompt from its variables." };
+  }
+
+  try {
+    const template = await templates.get(name);
+    if (!template) {
+      return { success: false, error: `Unknown template "${name}". Templates are read from ${templates.dir} and listed as MCP prompts.` };
+    }
+    return applyTemplate(request, template, variables ?? {});
+  } catch (error) {
+    console.error(`Error loading template ${name}:`, error);
+    return { success: false, error: `Failed to load template "${name}". ${error instanceof Error ? error.message : error}` };
+  }
+}
+
+function formatTemplateUsage(name: string, merge: TemplateMerge<unknown>): string {
+  const variables = Object.entries(merge.variables).map(([variable, value]) => `${variable}=${JSON.stringify(value)}`);
+  const details = [
+    variables.length > 0 ? variables.join(', ') : '',
+    merge.applied.length > 0 ? `applied ${merge.applied.join(', ')}` : ''
+  ].filter(Boolean);
+  return `Template: ${name}${details.length > 0 ? ` (${details.join('; ')})` : ''}`;
+}
+
+function formatBrandKitUsage(name: string, merge: BrandKitMerge<unknown>): string {
+  const details = [
+    merge.applied.length > 0 ? `applied ${merge.applied.join(', ')}` : '',
+    merge.overridden.length > 0 ? `overridden by this call: ${merge.overridden.join(', ')}` : ''
+  ].filter(Boolean);
+  return `Brand Kit: ${name}${details.length > 0 ? ` (${details.join('; ')})` : ''}`;
+}
+
+// Generate safe filename for images
+function generateImageFilename(prompt: string, index: number, seed?: number, extension = 'png'): string {
+  const safePrompt = prompt
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, '_')
+    .substring(0, 50);
+  
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const seedStr = seed ? `_${seed}` : '';
+  return `ideogram_v3_${safePrompt}${seedStr}_${index}_${timestamp}.${extension}`;
+}
+
+// Input of the generate tools: defaults are applied after the template and brand kit are merged, and the prompt may come from a template
+const templatedRequestShape = {
+  ...optionalDefaults(generateRequestShape),
+  prompt: generateRequestShape.prompt.optional().describe("The text prompt to generate an image from. Required unless template is set"),
+  image_size: generateRequestShape.image_size.removeDefault().optional().describe("The resolution of the generated image. Can be a predefined size or custom width/height. Cannot be used with aspect_ratio or target_size. Default: \"square_hd\"")
+};
+
+// Servers currently connected to a client; each HTTP session has its own
+const activeServers = new Set<McpServer>();
+
+// Create an MCP server with all tools and resources registered
+function createServer(): McpServer {
+  // Create MCP server
+  const server = new McpServer({
+    name: "fal-ideogram-v3-server",
+    version: "1.0.0",
+  });
+
+  activeServers.add(server);
+  server.server.onclose = () => {
+    activeServers.delete(server);
+  };
+
+  // Resources: ideogram://images/<id> and ideogram://images/<id>/metadata
+  registerImageResources(server, history, storage);
+
+  // Prompts: one per template in the templates directory
+  registerTemplatePrompts(server, templates);
+
+  // Tool: Generate images with fal-ai/ideogram/v3
+  server.registerTool(
+    "ideogram_v3_generate",
+    {
+      description: "Generate high-quality images using fal-ai/ideogram/v3 - Advanced text-to-image generation model with superior text rendering capabilities",
+      inputSchema: {
+        ...templatedRequestShape,
+        ...sizeRequestShape,
+        template: TemplateNameSchema.optional().describe("Name of a prompt template (listed as MCP prompts) that renders the prompt from variables and provides default parameters. Use instead of prompt"),
+        variables: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe("Values of the template's variables"),
+        brand_kit: BrandKitNameSchema.optional().describe("Name of a brand kit whose palette, style codes, style preset, negative prompt and reference images are merged into this request. Parameters passed in the call override the kit"),
+        postprocess: PostprocessSchema.optional(),
+        cache: z.enum(CACHE_MODES).default("use").describe("Result cache for requests with a seed: use returns the stored images of an identical earlier request, refresh generates again and replaces them, bypass neither reads nor writes the cache"),
+        dry_run: z.boolean().optional().describe("Return the fully resolved request payload without generating anything or uploading local images"),
+        lint: z.enum(LINT_MODES).optional().describe("Pre-flight typography check of the prompt, as done by ideogram_v3_prompt_lint: warn reports the warnings and only stops on errors, strict also stops on warnings"),
+        include_image_data: z.boolean().optional().describe("Return the images as inline image content (downscaled to fit the server's size budget). Defaults to the server setting")
+      },
+      outputSchema: generateOutputShape
+    },
+    withErrorContent(async (args, extra) => {
+      const { include_image_data = inlineDefaults.enabled, template, variables, brand_kit, postprocess: requestedPostprocess, cache, dry_run, lint: lintMode, aspect_ratio, target_size, allow_upscale, target_fit, ...request } = args;
+
+      // Check if fal.ai client is configured; a dry run does not need it
+      if (!backend && !dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
+          }],
+          isError: true
+        };
+      }
+
+      // Resolve aspect_ratio or target_size to the closest supported image_size
+      const sized = resolveSizeRequest({ aspect_ratio, target_size, allow_upscale, target_fit }, request, requestedPostprocess);
+      if (!sized.success) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error: ${sized.error}`
+          }],
+          isError: true
+        };
+      }
+      const { postprocess, resolution } = sized.data;
+
+      // Merge the brand kit, then render the template; values passed in this call win over both
+      const merged = await mergeBrandKit(brand_kit, sized.data.request);
+      if (!merged.success) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error: ${merged.error}`
+          }],
+          isError: true
+        };
+      }
+
+      const rendered = await mergeTemplate(template, variables, merged.data.request);
+      if (!rendered.success) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error: ${rendered.error}`
+          }],
+          isError: true
+        };
+      }
+
+      // Validate combinations of parameters that the input schema cannot express
+      const parsed = parseWithSchema(GenerateRequestSchema, rendered.data.request);
+      if (!parsed.success) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error: ${parsed.error}`
+          }],
+          isError: true
+        };
+      }
+
+      // Opt-in typography check of the final prompt, before anything is sent
+      const lint = lintMode ? lintPrompt(parsed.data) : undefined;
+      if (lint && lintBlocks(lint, lintMode!)) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error: The prompt failed the ${lintMode} pre-flight check, nothing was generated.\n\n${formatPromptLint(lint)}`
+          }],
+          structuredContent: { error: `The prompt failed the ${lintMode} pre-flight check, nothing was generated`, lint },
+          isError: true
+        };
+      }
+
+      const params = parsed.data;
+      const settings = [
+        `Prompt: "${params.prompt}"`,
+        template ? formatTemplateUsage(template, rendered.data) : '',
+        brand_kit ? formatBrandKitUsage(brand_kit, merged.data) : '',
+        params.negative_prompt ? `Negative Prompt: "${params.negative_prompt}"` : '',
+        `Image Size: ${formatImageSize(params.image_size)}`,
+        resolution ? formatSizeResolution(resolution) : '',
+        `Rendering Speed: ${params.rendering_speed}`,
+        ...formatStyleSettings(params),
+        `Expand Prompt: ${params.expand_prompt}`,
+        lint ? `\nPrompt Lint:\n${formatPromptLint(lint)}\n` : ''
+      ];
+      const mergeOutput = {
+        lint,
+        size_resolution: resolution,
+        template: template ? { name: template, variables: rendered.data.variables, applied: rendered.data.applied } : undefined,
+        brand_kit: brand_kit ? { name: brand_kit, applied: merged.data.applied, overridden: merged.data.overridden } : undefined
+      };
+
+      try {
+        if (dry_run) {
+          return formatDryRunResponse(settings, await prepareGeneration(params, true), mergeOutput);
+        }
+
+        const run = await runGeneration(params, "ideogram_v3_generate", { postprocess, cache, progress: new ProgressReporter(extra), signal: extra.signal, usage: usageContext(extra) });
+
+        return await formatRunResponse(`Successfully generated ${run.downloadedImages.length} image(s) using fal-ai/ideogram/v3`, settings, run, include_image_data, mergeOutput);
+
+      } catch (error) {
+        console.error('Error generating image:', error);
+      
+        let errorMessage = "Failed to generate image with fal-ai/ideogram/v3.";
+      
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Generate a matrix of variations of one prompt
+  server.registerTool(
+    "ideogram_v3_generate_matrix",
+    {
+      description: `Generate every combination of a base request with varied parameters (style presets, color palettes, rendering speeds, seeds, ...) using fal-ai/ideogram/v3 and return a labeled result table. Limited to ${MAX_MATRIX_CELLS} generations per call`,
+      inputSchema: {
+        base: z.object(generateRequestShape).partial().describe("The base request, accepting the same parameters as ideogram_v3_generate. Values on an axis override the base value"),
+        axes: MatrixAxesSchema,
+        max_concurrency: z.number().int().min(1).max(4).default(2).describe("Maximum number of generations running at the same time"),
+        dry_run: z.boolean().optional().describe("Return the fully resolved request payload of every cell without generating anything or uploading local images")
+      },
+      outputSchema: matrixOutputShape
+    },
+    withErrorContent(async (args, extra) => {
+      const { base, axes, max_concurrency, dry_run } = args;
+
+      if (!backend && !dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
+          }],
+          isError: true
+        };
+      }
+
+      try {
+        const { axisNames, cells } = expandMatrix(axes);
+
+        if (dry_run) {
+          const prepared = await mapWithConcurrency(cells, 1, async (cell) => {
+            const parsed = parseWithSchema(GenerateRequestSchema, { ...base, ...cell.values });
+            if (!parsed.success) {
+              return { cell, input: undefined, error: parsed.error };
+            }
+            try {
+              return { cell, input: (await prepareGeneration(parsed.data, true)).input, error: undefined };
+            } catch (error) {
+              return { cell, input: undefined, error: error instanceof Error ? error.message : String(error) };
+            }
+          });
+          const valid = prepared.filter(cell => cell.input).length;
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Dry run: nothing was sent to fal-ai/ideogram/v3. ${valid} of ${cells.length} cell(s) are valid.
+
+Axes: ${axisNames.join(', ')}
+
+${prepared.map(({ cell, input, error }) => `Cell ${cell.index} (${axisNames.map(name => `${name}: ${formatAxisValue(cell.values[name])}`).join(', ')}):\n${input ? JSON.stringify(input, null, 2) : `Invalid: ${error}`}`).join('\n\n')}`
+              }
+            ],
+            structuredContent: {
+              dry_run: true,
+              axes: axisNames,
+              total: cells.length,
+              cells: prepared.map(({ cell, input, error }) => ({ index: cell.index, values: cell.values, parameters: input, error }))
+            },
+            isError: valid === 0
+          };
+        }
+
+        console.error(`Running ${cells.length} matrix generation(s) with concurrency ${max_concurrency}`);
+
+        const progress = new ProgressReporter(extra);
+        let finished = 0;
+
+        const outcomes = await mapWithConcurrency(cells, max_concurrency, async (cell) => {
+          try {
+            const parsed = parseWithSchema(GenerateRequestSchema, { ...base, ...cell.values });
+            if (!parsed.success) {
+              throw new Error(parsed.error);
+            }
+
+            const run = await runGeneration(parsed.data, "ideogram_v3_generate_matrix", { signal: extra.signal, usage: usageContext(extra) });
+            return { cell, run, error: null };
+          } catch (error) {
+            console.error(`Matrix cell ${cell.index} failed:`, error);
+            return { cell, run: null, error: error instanceof Error ? error.message : String(error) };
+          } finally {
+            await progress.report(`Finished ${++finished} of ${cells.length} cell(s)`);
+          }
+        });
+
+        const succeeded = outcomes.filter(outcome => outcome.run).length;
+
+        const header = `| # | ${axisNames.join(' | ')} | Result | Seed | Request ID |`;
+        const divider = `|${' --- |'.repeat(axisNames.length + 4)}`;
+        const rows = outcomes.map(({ cell, run, error }) => {
+          const values = axisNames.map(name => formatAxisValue(cell.values[name]));
+          const status = run ? `OK (${run.downloadedImages.length} image(s))` : `FAILED: ${error}`;
+          const seedStr = run?.output.seed !== undefined ? String(run.output.seed) : '-';
+          return `| ${cell.index} | ${values.join(' | ')} | ${status.replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|')} | ${seedStr} | ${run?.result.requestId ?? '-'} |`;
+        });
+
+        const cellDetails = outcomes
+          .filter(outcome => outcome.run)
+          .map(({ cell, run }) => `Cell ${cell.index}:\n${formatImageDetails(run!.downloadedImages)}`)
+          .join('\n\n');
+
+        const responseText = `Matrix generation finished: ${succeeded} of ${cells.length} cell(s) succeeded.
+
+Prompt: "${base.prompt ?? '(varied)'}"
+Axes: ${axisNames.join(', ')}
+
+${header}
+${divider}
+${rows.join('\n')}
+${cellDetails ? `\nGenerated Images:\n${cellDetails}\n` : ''}`;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: responseText
+            }
+          ],
+          structuredContent: {
+            axes: axisNames,
+            succeeded,
+            total: cells.length,
+            cells: outcomes.map(({ cell, run, error }) => ({
+              index: cell.index,
+              values: cell.values,
+              request_id: run?.result.requestId,
+              seed: run?.output.seed,
+              history_id: run?.historyEntry?.id,
+              images: run ? toImageOutputs(run.downloadedImages) : undefined,
+              error: error ?? undefined
+            }))
+          },
+          isError: succeeded === 0
+        };
+
+      } catch (error) {
+        console.error('Error running matrix generation:', error);
+
+        let errorMessage = "Failed to run matrix generation with fal-ai/ideogram/v3.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Inpaint the masked area of an image
+  server.registerTool(
+    "ideogram_v3_edit",
+    {
+      description: "Edit part of an image using fal-ai/ideogram/v3/edit - fills the area marked by a mask according to a prompt. The mask must have the same dimensions as the image",
+      inputSchema: {
+        ...editRequestShape,
+        postprocess: PostprocessSchema.optional(),
+        dry_run: z.boolean().optional().describe("Return the fully resolved request payload without generating anything or uploading local images"),
+        include_image_data: z.boolean().optional().describe("Return the images as inline image content (downscaled to fit the server's size budget). Defaults to the server setting")
+      },
+      outputSchema: runOutputShape
+    },
+    withErrorContent(async (args, extra) => handleImageEndpointTool("ideogram_v3_edit", "fal-ai/ideogram/v3/edit", EditRequestSchema, args, extra, params => [
+      `Prompt: "${params.prompt}"`,
+      `Source Image: ${params.image_url}`,
+      `Mask: ${params.mask_url}`,
+      `Expand Prompt: ${params.expand_prompt}`
+    ]))
+  );
+
+  // Tool: Remix an existing image with a new prompt
+  server.registerTool(
+    "ideogram_v3_remix",
+    {
+      description: "Reimagine an existing image with a new prompt using fal-ai/ideogram/v3/remix. The strength controls how much of the source image is kept",
+      inputSchema: {
+        ...remixRequestShape,
+        postprocess: PostprocessSchema.optional(),
+        dry_run: z.boolean().optional().describe("Return the fully resolved request payload without generating anything or uploading local images"),
+        include_image_data: z.boolean().optional().describe("Return the images as inline image content (downscaled to fit the server's size budget). Defaults to the server setting")
+      },
+      outputSchema: runOutputShape
+    },
+    withErrorContent(async (args, extra) => handleImageEndpointTool("ideogram_v3_remix", "fal-ai/ideogram/v3/remix", RemixRequestSchema, args, extra, params => [
+      `Prompt: "${params.prompt}"`,
+      params.negative_prompt ? `Negative Prompt: "${params.negative_prompt}"` : '',
+      `Source Image: ${params.image_url}`,
+      `Strength: ${params.strength}`,
+      `Image Size: ${formatImageSize(params.image_size)}`,
+      `Expand Prompt: ${params.expand_prompt}`
+    ]))
+  );
+
+  // Tool: Reframe an image to a new size
+  server.registerTool(
+    "ideogram_v3_reframe",
+    {
+      description: "Extend an image to a new aspect ratio or resolution using fal-ai/ideogram/v3/reframe, generating the content outside the original frame",
+      inputSchema: {
+        ...reframeRequestShape,
+        image_size: reframeRequestShape.image_size.optional().describe("The resolution of the reframed image. Can be a predefined size or custom width/height. Required unless aspect_ratio or target_size is set"),
+        ...sizeRequestShape,
+        postprocess: PostprocessSchema.optional(),
+        dry_run: z.boolean().optional().describe("Return the fully resolved request payload without generating anything or uploading local images"),
+        include_image_data: z.boolean().optional().describe("Return the images as inline image content (downscaled to fit the server's size budget). Defaults to the server setting")
+      },
+      outputSchema: runOutputShape
+    },
+    withErrorContent(async (args, extra) => handleImageEndpointTool("ideogram_v3_reframe", "fal-ai/ideogram/v3/reframe", ReframeRequestSchema, args, extra, params => [
+      `Source Image: ${params.image_url}`,
+      `Image Size: ${formatImageSize(params.image_size)}`
+    ]))
+  );
+
+  // Tool: Replace the background of an image
+  server.registerTool(
+    "ideogram_v3_replace_background",
+    {
+      description: "Keep the subject of an image and generate a new background from a prompt using fal-ai/ideogram/v3/replace-background",
+      inputSchema: {
+        ...replaceBackgroundRequestShape,
+        postprocess: PostprocessSchema.optional(),
+        dry_run: z.boolean().optional().describe("Return the fully resolved request payload without generating anything or uploading local images"),
+        include_image_data: z.boolean().optional().describe("Return the images as inline image content (downscaled to fit the server's size budget). Defaults to the server setting")
+      },
+      outputSchema: runOutputShape
+    },
+    withErrorContent(async (args, extra) => handleImageEndpointTool("ideogram_v3_replace_background", "fal-ai/ideogram/v3/replace-background", ReplaceBackgroundRequestSchema, args, extra, params => [
+      `Prompt: "${params.prompt}"`,
+      `Source Image: ${params.image_url}`,
+      `Expand Prompt: ${params.expand_prompt}`
+    ]))
+  );
+
+  // Tool: Generate images using queue method
+  server.registerTool(
+    "ideogram_v3_generate_queue",
+    {
+      description: "Submit a long-running image generation request to the queue using fal-ai/ideogram/v3",
+      inputSchema: {
+        ...templatedRequestShape,
+        ...sizeRequestShape,
+        template: TemplateNameSchema.optional().describe("Name of a prompt template (listed as MCP prompts) that renders the prompt from variables and provides default parameters. Use instead of prompt"),
+        variables: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe("Values of the template's variables"),
+        webhook_url: z.string().url("webhook_url must be a valid URL").optional().describe("Optional webhook URL for result notifications"),
+        brand_kit: BrandKitNameSchema.optional().describe("Name of a brand kit whose palette, style codes, style preset, negative prompt and reference images are merged into this request. Parameters passed in the call override the kit"),
+        postprocess: PostprocessSchema.optional(),
+        dry_run: z.boolean().optional().describe("Return the fully resolved request payload without submitting anything or uploading local images"),
+        lint: z.enum(LINT_MODES).optional().describe("Pre-flight typography check of the prompt, as done by ideogram_v3_prompt_lint: warn reports the warnings and only stops on errors, strict also stops on warnings")
+      },
+      outputSchema: queueSubmitOutputShape
+    },
+    withErrorContent(async (args, extra) => {
+      const { webhook_url: requestedWebhookUrl, template, variables, brand_kit, postprocess: requestedPostprocess, dry_run, lint: lintMode, aspect_ratio, target_size, allow_upscale, target_fit, ...request } = args;
+
+      if (!backend && !dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
+          }],
+          isError: true
+        };
+      }
+
+      // Default to the embedded webhook listener when it is reachable from fal.ai
+      const webhook_url = requestedWebhookUrl ?? (webhookOptions?.publicUrl || undefined);
+
+      // Resolve aspect_ratio or target_size to the closest supported image_size
+      const sized = resolveSizeRequest({ aspect_ratio, target_size, allow_upscale, target_fit }, request, requestedPostprocess);
+      if (!sized.success) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error: ${sized.error}`
+          }],
+          isError: true
+        };
+      }
+      const { postprocess, resolution } = sized.data;
+
+      // Merge the brand kit, then render the template; values passed in this call win over both
+      const merged = await mergeBrandKit(brand_kit, sized.data.request);
+      if (!merged.success) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error: ${merged.error}`
+          }],
+          isError: true
+        };
+      }
+
+      const rendered = await mergeTemplate(template, variables, merged.data.request);
+      if (!rendered.success) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error: ${rendered.error}`
+          }],
+          isError: true
+        };
+      }
+
+      // Validate combinations of parameters that the input schema cannot express
+      const parsed = parseWithSchema(GenerateRequestSchema, rendered.data.request);
+      if (!parsed.success) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error: ${parsed.error}`
+          }],
+          isError: true
+        };
+      }
+
+      // Opt-in typography check of the final prompt, before anything is sent
+      const lint = lintMode ? lintPrompt(parsed.data) : undefined;
+      if (lint && lintBlocks(lint, lintMode!)) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error: The prompt failed the ${lintMode} pre-flight check, nothing was generated.\n\n${formatPromptLint(lint)}`
+          }],
+          structuredContent: { error: `The prompt failed the ${lintMode} pre-flight check, nothing was generated`, lint },
+          isError: true
+        };
+      }
+
+      try {
+        const prepared = await prepareGeneration(parsed.data, dry_run);
+        const { input } = prepared;
+
+        if (dry_run) {
+          return formatDryRunResponse([
+            `Prompt: "${parsed.data.prompt}"`,
+            template ? formatTemplateUsage(template, rendered.data) : '',
+            brand_kit ? formatBrandKitUsage(brand_kit, merged.data) : '',
+            resolution ? formatSizeResolution(resolution) : '',
+            webhook_url ? `Webhook URL: ${webhook_url}` : 'No webhook configured',
+            lint ? `\nPrompt Lint:\n${formatPromptLint(lint)}` : ''
+          ], prepared, {
+            webhook_url,
+            lint,
+            size_resolution: resolution,
+            template: template ? { name: template, variables: rendered.data.variables, applied: rendered.data.applied } : undefined,
+            brand_kit: brand_kit ? { name: brand_kit, applied: merged.data.applied, overridden: merged.data.overridden } : undefined
+          });
+        }
+
+        console.error(`Submitting queue request for fal-ai/ideogram/v3 - prompt: "${parsed.data.prompt}"`);
+
+        // Queued requests are charged when they are submitted
+        const reservation = await usageLedger.reserve(usageLedger.estimate("ideogram_v3_generate_queue", "fal-ai/ideogram/v3", input), usageContext(extra));
+        let result;
+        try {
+          result = await requireBackend().submit("fal-ai/ideogram/v3", {
+            input,
+            webhookUrl: webhook_url
+          });
+        } catch (error) {
+          usageLedger.release(reservation);
+          throw error;
+        }
+        await usageLedger.commit(reservation, result.request_id);
+
+        await jobs.add({
+          request_id: result.request_id,
+          prompt: parsed.data.prompt,
+          params: input,
+          webhook_url,
+          postprocess,
+          submitted_at: new Date().toISOString()
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully submitted image generation request to queue.
+
+${[
+  `Request ID: ${result.request_id}`,
+  `Prompt: "${parsed.data.prompt}"`,
+  template ? formatTemplateUsage(template, rendered.data) : '',
+  brand_kit ? formatBrandKitUsage(brand_kit, merged.data) : '',
+  resolution ? formatSizeResolution(resolution) : '',
+  webhook_url ? `Webhook URL: ${webhook_url}` : 'No webhook configured',
+  lint ? `\nPrompt Lint:\n${formatPromptLint(lint)}\n` : '',
+  queuePollIntervalMs > 0 ? 'The server tracks this request and downloads the images automatically once it completes.' : ''
+].filter(Boolean).join('\n')}
+
+Use the request ID with ideogram_v3_queue_status to check progress, ideogram_v3_queue_result to get the final result or ideogram_v3_queue_list to see all submitted requests.`
+            }
+          ],
+          structuredContent: {
+            request_id: result.request_id,
+            status: "IN_QUEUE",
+            webhook_url,
+            parameters: input,
+            lint,
+            size_resolution: resolution,
+            template: template ? { name: template, variables: rendered.data.variables, applied: rendered.data.applied } : undefined,
+            brand_kit: brand_kit ? { name: brand_kit, applied: merged.data.applied, overridden: merged.data.overridden } : undefined
+          }
+        };
+
+      } catch (error) {
+        console.error('Error submitting queue request:', error);
+      
+        let errorMessage = "Failed to submit queue request for fal-ai/ideogram/v3.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Check queue status
+  server.registerTool(
+    "ideogram_v3_queue_status",
+    {
+      description: "Check the status of a queued image generation request",
+      inputSchema: {
+        request_id: z.string().min(1).describe("The request ID from queue submission"),
+        logs: z.boolean().default(true).describe("Include logs in response")
+      },
+      outputSchema: queueStatusOutputShape
+    },
+    withErrorContent(async (args) => {
+      if (!backend) {
+        return {
+          content: [{
+            type: "text",
+            text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
+          }],
+          isError: true
+        };
+      }
+
+      const { request_id, logs = true } = args;
+    
+      try {
+        console.error(`Checking status for request: ${request_id}`);
+
+        const status = await backend.status("fal-ai/ideogram/v3", {
+          requestId: request_id,
+          logs
+        });
+
+        const job = await jobs.get(request_id);
+        if (job && isPending(job)) {
+          await jobs.update(request_id, { status: status.status as JobStatus, queue_position: status.queue_position });
+        }
+
+        let responseText = `Queue Status for Request ID: ${request_id}
+
+Status: ${status.status}`;
+
+        if (status.response_url) {
+          responseText += `\nResponse URL: ${status.response_url}`;
+        }
+
+        // Handle logs if available
+        const statusLogs = (status.logs ?? []).map(log => ({
+          message: String(log.message),
+          level: log.level,
+          timestamp: log.timestamp
+        }));
+        if (statusLogs.length > 0) {
+          responseText += `\n\nLogs:\n${statusLogs.map(log => `[${log.timestamp}] ${log.message}`).join('\n')}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: responseText
+            }
+          ],
+          structuredContent: {
+            request_id,
+            status: status.status,
+            queue_position: status.queue_position ?? undefined,
+            response_url: status.response_url,
+            logs: statusLogs
+          }
+        };
+
+      } catch (error) {
+        console.error('Error checking queue status:', error);
+      
+        let errorMessage = "Failed to check queue status.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Cancel a queued request
+  server.registerTool(
+    "ideogram_v3_queue_cancel",
+    {
+      description: "Cancel a queued image generation request that has not finished yet",
+      inputSchema: {
+        request_id: z.string().min(1).describe("The request ID from queue submission")
+      },
+      outputSchema: queueCancelOutputShape
+    },
+    withErrorContent(async (args) => {
+      if (!backend) {
+        return {
+          content: [{
+            type: "text",
+            text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
+          }],
+          isError: true
+        };
+      }
+
+      const { request_id } = args;
+
+      const job = await jobs.get(request_id);
+      if (job && !isPending(job)) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error: Request ${request_id} cannot be cancelled, its status is ${job.status}.`
+          }],
+          isError: true
+        };
+      }
+
+      try {
+        console.error(`Cancelling request: ${request_id}`);
+
+        await backend.cancel("fal-ai/ideogram/v3", { requestId: request_id });
+        // A request that already started may still complete, so its final status is left to the poller or webhook
+        if (job) {
+          await jobs.update(request_id, { cancel_requested_at: new Date().toISOString() });
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Requested cancellation of request ${request_id}.
+
+Requests that already started generating may still complete; fal.ai only guarantees cancellation for requests that are still in the queue. Use ideogram_v3_queue_status to see how the request ended.`
+            }
+          ],
+          structuredContent: {
+            request_id,
+            status: job?.status
+          }
+        };
+
+      } catch (error) {
+        console.error('Error cancelling queue request:', error);
+
+        let errorMessage = "Failed to cancel queue request.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Get queue result
+  server.registerTool(
+    "ideogram_v3_queue_result",
+    {
+      description: "Get the result of a completed queued image generation request",
+      inputSchema: {
+        request_id: z.string().min(1).describe("The request ID from queue submission"),
+        include_image_data: z.boolean().optional().describe("Return the images as inline image content (downscaled to fit the server's size budget). Defaults to the server setting")
+      },
+      outputSchema: queueResultOutputShape
+    },
+    withErrorContent(async (args) => {
+      const { request_id, include_image_data = inlineDefaults.enabled } = args;
+
+      try {
+        // Results the server already downloaded are served without another API call
+        const job = await jobs.get(request_id);
+        const localEntry = job?.history_id ? await history.get(job.history_id) : undefined;
+
+        if (!localEntry && !backend && !resultsInFlight.has(request_id)) {
+          return {
+            content: [{
+              type: "text",
+              text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
+            }],
+            isError: true
+          };
+        }
+
+        console.error(`Getting result for request: ${request_id}`);
+
+        const { output, downloadedImages, historyEntry, fromLocalCopy } = localEntry
+          ? await restoreQueuedResult(localEntry, include_image_data)
+          : await withResultLock(request_id, () => collectQueuedResult(request_id, "ideogram_v3_queue_result"));
+        const imageDetails = formatImageDetails(downloadedImages);
+
+        const responseText = `Queue Result for Request ID: ${request_id}
+
+Successfully completed! Generated ${downloadedImages.length} image(s):
+${job ? `\nPrompt: "${job.prompt}"` : ''}
+${output.seed ? `Seed: ${output.seed}` : 'Seed: Auto-generated'}
+${historyEntry ? `History ID: ${historyEntry.id}` : ''}
+${fromLocalCopy ? `\nThese images were downloaded automatically when the request completed (${historyEntry?.created_at}).` : ''}
+
+Generated Images:
+${imageDetails}
+
+${formatStorageSummary(downloadedImages)}`;
+
+        const { blocks: imageBlocks, notes: inlineNotes } = include_image_data
+          ? await buildImageContent(downloadedImages)
+          : { blocks: [], notes: [] };
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: inlineNotes.length > 0 ? `${responseText}\n\n${inlineNotes.join('\n')}` : responseText
+            },
+            ...imageBlocks
+          ],
+          structuredContent: {
+            endpoint: "fal-ai/ideogram/v3",
+            request_id,
+            seed: output.seed,
+            history_id: historyEntry?.id,
+            prompt: job?.prompt,
+            parameters: job?.params,
+            images: toImageOutputs(downloadedImages),
+            from_local_copy: fromLocalCopy
+          }
+        };
+
+      } catch (error) {
+        console.error('Error getting queue result:', error);
+      
+        let errorMessage = "Failed to get queue result.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: List tracked queue requests
+  server.registerTool(
+    "ideogram_v3_queue_list",
+    {
+      description: "List image generation requests submitted to the queue by this server, with their last known status",
+      inputSchema: {
+        status: z.enum(JOB_STATUSES).optional().describe("Only list requests with this status"),
+        limit: z.number().int().min(1).max(200).default(20).describe("Maximum number of requests to list, newest first")
+      },
+      outputSchema: queueListOutputShape
+    },
+    withErrorContent(async (args) => {
+      const { status, limit = 20 } = args;
+
+      try {
+        const tracked = (await jobs.list(status)).slice(0, limit);
+
+        if (tracked.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: status ? `No queued requests with status ${status}.` : "No queued requests have been submitted yet."
+              }
+            ],
+            structuredContent: { jobs: [], pending: 0 }
+          };
+        }
+
+        const pendingCount = tracked.filter(isPending).length;
+        const responseText = `Tracked queue requests (${tracked.length}, ${pendingCount} pending), newest first:
+
+${tracked.map(formatJob).join('\n\n')}
+
+${queuePollIntervalMs > 0 ? `Pending requests are polled every ${queuePollIntervalMs / 1000}s and downloaded automatically when they complete.` : 'Automatic polling is disabled; use ideogram_v3_queue_result to fetch completed requests.'}`;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: responseText
+            }
+          ],
+          structuredContent: {
+            jobs: tracked.map(job => ({
+              request_id: job.request_id,
+              prompt: job.prompt,
+              status: job.status,
+              submitted_at: job.submitted_at,
+              updated_at: job.updated_at,
+              queue_position: job.queue_position,
+              history_id: job.history_id,
+              webhook_url: job.webhook_url,
+              error: job.error
+            })),
+            pending: pendingCount
+          }
+        };
+
+      } catch (error) {
+        console.error('Error listing queue requests:', error);
+
+        let errorMessage = "Failed to list queue requests.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Search generation history
+  server.registerTool(
+    "ideogram_v3_history_search",
+    {
+      description: "Search the local history of image generations by prompt text, style, style preset and date range",
+      inputSchema: {
+        text: z.string().optional().describe("Case-insensitive text to look for in the prompt or negative prompt"),
+        style: z.enum(STYLES).optional().describe("Only return generations that used this style"),
+        style_preset: z.enum(STYLE_PRESETS).optional().describe("Only return generations that used this style preset"),
+        tool: z.string().optional().describe("Only return entries recorded by this tool, e.g. ideogram_v3_generate"),
+        parent_id: z.string().optional().describe("Only return variations of this history entry"),
+        from: z.string().optional().describe("Earliest creation date (ISO 8601, e.g. 2025-01-31)"),
+        to: z.string().optional().describe("Latest creation date (ISO 8601, inclusive when only a date is given)"),
+        limit: z.number().int().min(1).max(200).default(20).describe("Maximum number of entries to return, newest first")
+      },
+      outputSchema: historySearchOutputShape
+    },
+    withErrorContent(async (args) => {
+      const { text, style, style_preset, tool, parent_id, from, to, limit = 20 } = args;
+
+      try {
+        const entries = await history.search({ text, style, style_preset, tool, parent_id, from, to, limit });
+
+        if (entries.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No matching generations found in history."
+              }
+            ],
+            structuredContent: { entries: [] }
+          };
+        }
+
+        const responseText = `Found ${entries.length} matching generation(s), newest first:
+
+${entries.map(formatHistoryEntry).join('\n\n---\n\n')}`;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: responseText
+            }
+          ],
+          structuredContent: { entries }
+        };
+
+      } catch (error) {
+        console.error('Error searching history:', error);
+
+        let errorMessage = "Failed to search generation history.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Get a single history entry
+  server.registerTool(
+    "ideogram_v3_history_get",
+    {
+      description: "Get the full parameters and images of a past generation by history ID or request ID, with the generations it is a variation of and its own variations",
+      inputSchema: {
+        id: z.string().min(1).describe("The history ID or fal request ID of the generation")
+      },
+      outputSchema: historyGetOutputShape
+    },
+    withErrorContent(async (args) => {
+      const { id } = args;
+
+      try {
+        const entry = await history.get(id);
+
+        if (!entry) {
+          return {
+            content: [{
+              type: "text",
+              text: `Error: No history entry found for ID: ${id}`
+            }],
+            isError: true
+          };
+        }
+
+        const lineage = await history.lineage(entry);
+        const summary = (item: HistoryEntry) => ({ id: item.id, tool: item.tool, created_at: item.created_at, prompt: item.prompt, seed: item.seed, variation: item.variation });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${formatHistoryEntry(entry)}\n\n${formatLineage(lineage)}`
+            }
+          ],
+          structuredContent: { entry, lineage: { ancestors: lineage.ancestors.map(summary), children: lineage.children.map(summary) } }
+        };
+
+      } catch (error) {
+        console.error('Error reading history:', error);
+
+        let errorMessage = "Failed to read generation history.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Show result cache statistics
+  server.registerTool(
+    "ideogram_v3_cache_stats",
+    {
+      description: "Show how many generation results are cached, their total size and the hit rate since the server started",
+      inputSchema: {},
+      outputSchema: cacheStatsOutputShape
+    },
+    withErrorContent(async () => {
+      try {
+        const stats = await resultCache.stats();
+        const lookups = stats.hits + stats.misses;
+        const { ttlMs, maxEntries, maxBytes } = resultCache.options;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Result Cache${resultCache.enabled ? '' : ' (disabled)'}:
+
+File: ${resultCache.filePath}
+Entries: ${stats.entries} of ${maxEntries}
+Images: ${stats.images}
+Size: ${stats.bytes} of ${maxBytes} bytes
+Time to Live: ${ttlMs / 1000}s
+Hits: ${stats.hits}
+Misses: ${stats.misses}
+Hit Rate: ${lookups > 0 ? `${Math.round(stats.hits / lookups * 100)}%` : 'n/a'}
+${stats.oldest ? `Oldest Entry: ${stats.oldest}\nNewest Entry: ${stats.newest}` : ''}`
+            }
+          ],
+          structuredContent: {
+            enabled: resultCache.enabled,
+            file: resultCache.filePath,
+            ...stats,
+            ttl_seconds: ttlMs / 1000,
+            max_entries: maxEntries,
+            max_bytes: maxBytes
+          }
+        };
+
+      } catch (error) {
+        console.error('Error reading result cache:', error);
+
+        let errorMessage = "Failed to read the result cache.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Clear the result cache
+  server.registerTool(
+    "ideogram_v3_cache_clear",
+    {
+      description: "Remove cached generation results so identical requests are generated again. The image files are kept",
+      inputSchema: {
+        expired_only: z.boolean().default(false).describe("Only remove entries older than the cache time to live")
+      },
+      outputSchema: cacheClearOutputShape
+    },
+    withErrorContent(async (args) => {
+      try {
+        const removed = await resultCache.clear(args.expired_only);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Removed ${removed} ${args.expired_only ? 'expired ' : ''}cache entr${removed === 1 ? 'y' : 'ies'}. Image files were not deleted.`
+            }
+          ],
+          structuredContent: { removed }
+        };
+
+      } catch (error) {
+        console.error('Error clearing result cache:', error);
+
+        let errorMessage = "Failed to clear the result cache.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Check the typography of a prompt
+  server.registerTool(
+    "ideogram_v3_prompt_lint",
+    {
+      description: "Check how the quoted copy of a prompt will render before generating: extracts the text meant to appear in the image and flags long or multi-line copy, unbalanced quotes, conflicts with the negative prompt and MagicPrompt rewriting the copy. Returns structured warnings and a suggested rewrite. Sends nothing to fal.ai",
+      inputSchema: {
+        prompt: z.string().min(1, "prompt must not be empty").describe("The prompt to check"),
+        negative_prompt: z.string().optional().describe("The negative prompt the generation would use"),
+        expand_prompt: z.boolean().default(true).describe("Whether the generation would use MagicPrompt")
+      },
+      outputSchema: promptLintOutputShape
+    },
+    withErrorContent(async (args) => {
+      const lint = lintPrompt(args);
+      const errors = lint.warnings.filter(warning => warning.severity === "error").length;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Prompt Lint: ${lint.warnings.length === 0 ? 'no findings' : `${lint.warnings.length} finding(s), ${errors} error(s)`}\n\n${formatPromptLint(lint)}`
+          }
+        ],
+        structuredContent: { ...lint }
+      };
+    })
+  );
+
+  // Tool: Report estimated spending and budgets
+  server.registerTool(
+    "ideogram_v3_usage_report",
+    {
+      description: "Report the estimated cost of the generations that reached fal.ai, broken down by day, tool and rendering speed, and how much of each configured budget is left. Costs are estimates from the configured per-image prices",
+      inputSchema: {
+        from: z.string().optional().describe("Only count calls on or after this date or ISO timestamp"),
+        to: z.string().optional().describe("Only count calls on or before this date or ISO timestamp")
+      },
+      outputSchema: usageReportOutputShape
+    },
+    withErrorContent(async (args, extra) => {
+      try {
+        const report = await usageLedger.report(args);
+        const budgets = await usageLedger.budgets(usageContext(extra));
+        const { prices } = usageLedger.options;
+
+        const formatTotals = (totals: UsageTotals) =>
+          `  ${totals.name}: ${formatUsd(totals.cost)} (${totals.calls} call(s), ${totals.images} image(s))`;
+        const formatBudget = (budget: BudgetStatus) =>
+          `  ${budget.scope === "day" ? 'Daily' : budget.scope === "session" ? 'Session' : 'Key'} (${budget.name}): ${formatUsd(budget.spent)} of ${formatUsd(budget.limit)} spent, ${formatUsd(budget.remaining)} left`;
+        const range = args.from || args.to ? ` (${args.from ?? 'start'} to ${args.to ?? 'now'})` : '';
+
+        const sections = [
+          `Estimated Usage${range}:\n\nTotal: ${formatUsd(report.total.cost)} (${report.total.calls} call(s), ${report.total.images} image(s))`,
+          report.by_day.length > 0 ? `By Day:\n${report.by_day.map(formatTotals).join('\n')}` : '',
+          report.by_tool.length > 0 ? `By Tool:\n${report.by_tool.map(formatTotals).join('\n')}` : '',
+          report.by_rendering_speed.length > 0 ? `By Rendering Speed:\n${report.by_rendering_speed.map(formatTotals).join('\n')}` : '',
+          `Budgets:\n${budgets.length > 0 ? budgets.map(formatBudget).join('\n') : '  None configured'}`,
+          `Prices per Image: ${(Object.keys(prices) as RenderingSpeed[]).map(speed => `${speed} ${formatUsd(prices[speed])}`).join(', ')}`
+        ];
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: sections.filter(Boolean).join('\n\n')
+            }
+          ],
+          structuredContent: {
+            from: args.from,
+            to: args.to,
+            ...report,
+            budgets,
+            prices
+          }
+        };
+
+      } catch (error) {
+        console.error('Error reading usage ledger:', error);
+
+        let errorMessage = "Failed to read the usage ledger.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Extract a color palette from an image
+  server.registerTool(
+    "ideogram_v3_extract_palette",
+    {
+      description: "Compute the dominant colors of an image and return them as a color_palette that can be passed to the generation tools",
+      inputSchema: {
+        image: ReferenceImageSchema.describe("The image to extract colors from: an image URL, a local file path or a data URI (JPEG, PNG or WebP)"),
+        max_colors: z.number().int().min(1).max(MAX_PALETTE_COLORS).default(DEFAULT_PALETTE_COLORS).describe("Maximum number of colors in the palette")
+      },
+      outputSchema: paletteOutputShape
+    },
+    withErrorContent(async (args) => {
+      const { image, max_colors } = args;
+
+      try {
+        const data = await readImageSource(image, downloadSettings.timeoutMs);
+        if (!sniffImageType(data)) {
+          return {
+            content: [{
+              type: "text",
+              text: `Error: ${image} is not a JPEG, PNG or WebP image`
+            }],
+            isError: true
+          };
+        }
+
+        const palette: ColorPalette = { members: await extractPalette(data, max_colors) };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Extracted ${palette.members!.length} color(s) from ${image}:
+
+${formatPalette(palette)}
+
+Pass this as color_palette to a generation tool:
+${JSON.stringify(palette, null, 2)}`
+            }
+          ],
+          structuredContent: {
+            image,
+            color_palette: { members: palette.members!.map(member => ({ ...member, hex: toHexColor(member.rgb) })) }
+          }
+        };
+
+      } catch (error) {
+        console.error('Error extracting color palette:', error);
 
-// Tool: Generate images with fal-ai/ideogram/v3
-server.tool(
-  "ideogram_v3_generate",
-  {
-    description: "Generate high-quality images using fal-ai/ideogram/v3 - Advanced text-to-image generation model with superior text rendering capabilities",
-    inputSchema: {
-      type: "object",
-      properties: {
-        prompt: {
-          type: "string",
-          description: "The text prompt to generate an image from"
-        },
-        negative_prompt: {
-          type: "string",
-          description: "Description of what to exclude from an image. Descriptions in the prompt take precedence to descriptions in the negative prompt",
-          default: ""
-        },
-        image_size: {
-          oneOf: [
-            {
-              type: "string",
-              enum: ["square_hd", "square", "portrait_4_3", "portrait_16_9", "landscape_4_3", "landscape_16_9"],
-              description: "Predefined image size"
-            },
+        let errorMessage = "Failed to extract a color palette.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
             {
-              type: "object",
-              properties: {
-                width: {
-                  type: "integer",
-                  description: "The width of the generated image",
-                  default: 512
-                },
-                height: {
-                  type: "integer", 
-                  description: "The height of the generated image",
-                  default: 512
-                }
-              },
-              required: ["width", "height"]
-            }
-          ],
-          description: "The resolution of the generated image. Can be a predefined size or custom width/height",
-          default: "square_hd"
-        },
-        rendering_speed: {
-          type: "string",
-          enum: ["TURBO", "BALANCED", "QUALITY"],
-          description: "The rendering speed to use",
-          default: "BALANCED"
-        },
-        style: {
-          type: "string",
-          enum: ["AUTO", "GENERAL", "REALISTIC", "DESIGN"],
-          description: "The style type to generate with. Cannot be used with style_codes"
-        },
-        style_codes: {
-          type: "array",
-          items: {
-            type: "string",
-            pattern: "^[0-9A-Fa-f]{8}$"
-          },
-          description: "A list of 8 character hexadecimal codes representing the style of the image. Cannot be used in conjunction with style_reference_images or style"
-        },
-        style_preset: {
-          type: "string",
-          enum: ["80S_ILLUSTRATION", "90S_NOSTALGIA", "ABSTRACT_ORGANIC", "ANALOG_NOSTALGIA", "ART_BRUT", "ART_DECO", "ART_POSTER", "AURA", "AVANT_GARDE", "BAUHAUS", "BLUEPRINT", "BLURRY_MOTION", "BRIGHT_ART", "C4D_CARTOON", "CHILDRENS_BOOK", "COLLAGE", "COLORING_BOOK_I", "COLORING_BOOK_II", "CUBISM", "DARK_AURA", "DOODLE", "DOUBLE_EXPOSURE", "DRAMATIC_CINEMA", "EDITORIAL", "EMOTIONAL_MINIMAL", "ETHEREAL_PARTY", "EXPIRED_FILM", "FLAT_ART", "FLAT_VECTOR", "FOREST_REVERIE", "GEO_MINIMALIST", "GLASS_PRISM", "GOLDEN_HOUR", "GRAFFITI_I", "GRAFFITI_II", "HALFTONE_PRINT", "HIGH_CONTRAST", "HIPPIE_ERA", "ICONIC", "JAPANDI_FUSION", "JAZZY", "LONG_EXPOSURE", "MAGAZINE_EDITORIAL", "MINIMAL_ILLUSTRATION", "MIXED_MEDIA", "MONOCHROME", "NIGHTLIFE", "OIL_PAINTING", "OLD_CARTOONS", "PAINT_GESTURE", "POP_ART", "RETRO_ETCHING", "RIVIERA_POP", "SPOTLIGHT_80S", "STYLIZED_RED", "SURREAL_COLLAGE", "TRAVEL_POSTER", "VINTAGE_GEO", "VINTAGE_POSTER", "WATERCOLOR", "WEIRD", "WOODBLOCK_PRINT"],
-          description: "Style preset for generation. The chosen style preset will guide the generation."
-        },
-        color_palette: {
-          type: "object",
-          properties: {
-            name: {
-              type: "string",
-              enum: ["EMBER", "FRESH", "JUNGLE", "MAGIC", "MELON", "MOSAIC", "PASTEL", "ULTRAMARINE"],
-              description: "A color palette preset value"
-            },
-            members: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  rgb: {
-                    type: "object",
-                    properties: {
-                      r: { type: "integer", minimum: 0, maximum: 255 },
-                      g: { type: "integer", minimum: 0, maximum: 255 },
-                      b: { type: "integer", minimum: 0, maximum: 255 }
-                    },
-                    required: ["r", "g", "b"]
-                  },
-                  color_weight: {
-                    type: "number",
-                    description: "The weight of the color in the color palette",
-                    default: 0.5
-                  }
-                },
-                required: ["rgb"]
-              },
-              description: "A list of color palette members that define the color palette"
+              type: "text",
+              text: errorMessage
             }
-          },
-          description: "A color palette for generation, must EITHER be specified via one of the presets (name) or explicitly via hexadecimal representations of the color with optional weights (members)"
-        },
-        image_urls: {
-          type: "array",
-          items: {
-            type: "string"
-          },
-          description: "A set of images to use as style references (maximum total size 10MB across all style references). The images should be in JPEG, PNG or WebP format"
-        },
-        expand_prompt: {
-          type: "boolean",
-          description: "Determine if MagicPrompt should be used in generating the request or not",
-          default: true
-        },
-        num_images: {
-          type: "integer",
-          description: "Number of images to generate",
-          default: 1,
-          minimum: 1,
-          maximum: 8
-        },
-        seed: {
-          type: "integer",
-          description: "Seed for the random number generator"
-        },
-        sync_mode: {
-          type: "boolean",
-          description: "If set to true, the function will wait for the image to be generated and uploaded before returning the response",
-          default: false
-        }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Create or update a brand kit
+  server.registerTool(
+    "ideogram_v3_brandkit_create",
+    {
+      description: "Save a named brand kit (color palette, style codes or style, style preset, negative prompt and style reference images) that can be applied to generations with the brand_kit parameter",
+      inputSchema: {
+        ...brandKitShape,
+        overwrite: z.boolean().default(false).describe("Replace an existing brand kit with the same name")
       },
-      required: ["prompt"]
-    }
-  },
-  async (args: any) => {
-    // Check if fal.ai client is configured
-    if (!falConfigured) {
-      return {
-        content: [{
-          type: "text",
-          text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
-        }],
-        isError: true
-      };
-    }
-
-    const { 
-      prompt, 
-      negative_prompt = "",
-      image_size = "square_hd",
-      rendering_speed = "BALANCED",
-      style,
-      style_codes,
-      style_preset,
-      color_palette,
-      image_urls,
-      expand_prompt = true,
-      num_images = 1,
-      seed,
-      sync_mode = false
-    } = args;
-    
-    try {
-      // Validate that style and style_codes are not used together
-      if (style && style_codes && style_codes.length > 0) {
+      outputSchema: brandKitOutputShape
+    },
+    withErrorContent(async (args) => {
+      const { overwrite, ...settings } = args;
+
+      // Validate combinations of parameters that the input schema cannot express
+      const parsed = parseWithSchema(BrandKitSchema, settings);
+      if (!parsed.success) {
         return {
           content: [{
             type: "text",
-            text: "Error: Cannot use both 'style' and 'style_codes' parameters together. Please use only one."
+            text: `Error: ${parsed.error}`
           }],
           isError: true
         };
       }
 
-      // Prepare input for fal.ai API
-      const input: any = {
-        prompt,
-        negative_prompt,
-        image_size,
-        rendering_speed,
-        expand_prompt,
-        num_images,
-        sync_mode
-      };
+      try {
+        if (!overwrite && await brandKits.get(parsed.data.name)) {
+          return {
+            content: [{
+              type: "text",
+              text: `Error: Brand kit "${parsed.data.name}" already exists. Pass overwrite: true to replace it.`
+            }],
+            isError: true
+          };
+        }
 
-      // Add optional parameters if provided
-      if (style) input.style = style;
-      if (style_codes && style_codes.length > 0) input.style_codes = style_codes;
-      if (style_preset) input.style_preset = style_preset;
-      if (color_palette) input.color_palette = color_palette;
-      if (image_urls && image_urls.length > 0) input.image_urls = image_urls;
-      if (seed !== undefined) input.seed = seed;
-
-      console.error(`Generating image with fal-ai/ideogram/v3 - prompt: "${prompt}"`);
-
-      // Call fal.ai ideogram/v3 API
-      const result = await fal.subscribe("fal-ai/ideogram/v3", {
-        input,
-        logs: true,
-        onQueueUpdate: (update: any) => {
-          if (update.status === "IN_PROGRESS") {
-            update.logs.map((log: any) => log.message).forEach(console.error);
-          }
-        },
-      });
+        const kit = await brandKits.save(parsed.data);
 
-      const output = result.data as IdeogramImageResult;
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Saved brand kit "${kit.name}":\n\n${formatBrandKit(kit)}\n\nPass brand_kit: "${kit.name}" to ideogram_v3_generate or ideogram_v3_generate_queue to apply it.`
+            }
+          ],
+          structuredContent: { brand_kit: kit }
+        };
 
-      // Download images locally
-      console.error("Downloading images locally...");
-      const downloadedImages = [];
+      } catch (error) {
+        console.error('Error saving brand kit:', error);
 
-      for (let i = 0; i < output.images.length; i++) {
-        const image = output.images[i];
-        const filename = generateImageFilename(prompt, i + 1, output.seed);
-        
-        try {
-          const localPath = await downloadImage(image.url, filename);
-          downloadedImages.push({
-            url: image.url,
-            localPath,
-            index: i + 1,
-            content_type: image.content_type || 'image/png',
-            file_name: image.file_name || filename,
-            file_size: image.file_size,
-            filename
-          });
-          console.error(`Downloaded: ${filename}`);
-        } catch (downloadError) {
-          console.error(`Failed to download image ${i + 1}:`, downloadError);
-          // Still add the image info without local path
-          downloadedImages.push({
-            url: image.url,
-            localPath: null,
-            index: i + 1,
-            content_type: image.content_type || 'image/png',
-            file_name: image.file_name || filename,
-            file_size: image.file_size,
-            filename
-          });
+        let errorMessage = "Failed to save brand kit.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
         }
-      }
 
-      // Format response with download information
-      const imageDetails = downloadedImages.map(img => {
-        let details = `Image ${img.index}:`;
-        if (img.localPath) {
-          details += `\n  Local Path: ${img.localPath}`;
-        }
-        details += `\n  Original URL: ${img.url}`;
-        details += `\n  Filename: ${img.filename}`;
-        details += `\n  Content Type: ${img.content_type}`;
-        if (img.file_size) {
-          details += `\n  File Size: ${img.file_size} bytes`;
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: List brand kits
+  server.registerTool(
+    "ideogram_v3_brandkit_list",
+    {
+      description: "List the saved brand kits",
+      inputSchema: {},
+      outputSchema: brandKitListOutputShape
+    },
+    withErrorContent(async () => {
+      try {
+        const kits = await brandKits.list();
+
+        if (kits.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: "No brand kits saved yet. Use ideogram_v3_brandkit_create to create one."
+            }],
+            structuredContent: { brand_kits: [] }
+          };
         }
-        return details;
-      }).join('\n\n');
 
-      const imageSizeStr = typeof image_size === 'string' ? image_size : `${image_size.width}x${image_size.height}`;
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${kits.length} brand kit(s):\n\n${kits.map(formatBrandKit).join('\n\n')}`
+            }
+          ],
+          structuredContent: { brand_kits: kits }
+        };
 
-      const responseText = `Successfully generated ${downloadedImages.length} image(s) using fal-ai/ideogram/v3:
+      } catch (error) {
+        console.error('Error listing brand kits:', error);
 
-Prompt: "${prompt}"
-${negative_prompt ? `Negative Prompt: "${negative_prompt}"` : ''}
-Image Size: ${imageSizeStr}
-Rendering Speed: ${rendering_speed}
-${style ? `Style: ${style}` : ''}
-${style_preset ? `Style Preset: ${style_preset}` : ''}
-${style_codes && style_codes.length > 0 ? `Style Codes: ${style_codes.join(', ')}` : ''}
-${color_palette ? `Color Palette: ${color_palette.name || 'Custom'}` : ''}
-${image_urls && image_urls.length > 0 ? `Style Reference Images: ${image_urls.length}` : ''}
-Expand Prompt: ${expand_prompt}
-${output.seed ? `Seed: ${output.seed}` : 'Seed: Auto-generated'}
-Request ID: ${result.requestId}
+        let errorMessage = "Failed to list brand kits.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
 
-Generated Images:
-${imageDetails}
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Get a brand kit
+  server.registerTool(
+    "ideogram_v3_brandkit_get",
+    {
+      description: "Get the settings of a saved brand kit",
+      inputSchema: {
+        name: BrandKitNameSchema.describe("The brand kit name")
+      },
+      outputSchema: brandKitOutputShape
+    },
+    withErrorContent(async (args) => {
+      const { name } = args;
+
+      try {
+        const kit = await brandKits.get(name);
+
+        if (!kit) {
+          return {
+            content: [{
+              type: "text",
+              text: `Error: No brand kit named "${name}"`
+            }],
+            isError: true
+          };
+        }
 
-${downloadedImages.some(img => img.localPath) ? 'Images have been downloaded to the local \'images\' directory.' : 'Note: Local download failed, but original URLs are available.'}`;
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatBrandKit(kit)
+            }
+          ],
+          structuredContent: { brand_kit: kit }
+        };
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: responseText
-          }
-        ]
-      };
+      } catch (error) {
+        console.error('Error reading brand kit:', error);
 
-    } catch (error) {
-      console.error('Error generating image:', error);
-      
-      let errorMessage = "Failed to generate image with fal-ai/ideogram/v3.";
-      
-      if (error instanceof Error) {
-        errorMessage += ` Error: ${error.message}`;
+        let errorMessage = "Failed to read brand kit.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
       }
+    })
+  );
+
+  // Tool: Delete a brand kit
+  server.registerTool(
+    "ideogram_v3_brandkit_delete",
+    {
+      description: "Delete a saved brand kit",
+      inputSchema: {
+        name: BrandKitNameSchema.describe("The brand kit name")
+      },
+      outputSchema: brandKitDeleteOutputShape
+    },
+    withErrorContent(async (args) => {
+      const { name } = args;
+
+      try {
+        if (!await brandKits.delete(name)) {
+          return {
+            content: [{
+              type: "text",
+              text: `Error: No brand kit named "${name}"`
+            }],
+            isError: true
+          };
+        }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: errorMessage
-          }
-        ],
-        isError: true
-      };
-    }
-  }
-);
-
-// Tool: Generate images using queue method
-server.tool(
-  "ideogram_v3_generate_queue",
-  {
-    description: "Submit a long-running image generation request to the queue using fal-ai/ideogram/v3",
-    inputSchema: {
-      type: "object",
-      properties: {
-        prompt: {
-          type: "string",
-          description: "The text prompt to generate an image from"
-        },
-        negative_prompt: {
-          type: "string",
-          description: "Description of what to exclude from an image",
-          default: ""
-        },
-        image_size: {
-          oneOf: [
-            {
-              type: "string",
-              enum: ["square_hd", "square", "portrait_4_3", "portrait_16_9", "landscape_4_3", "landscape_16_9"],
-              description: "Predefined image size"
-            },
+        return {
+          content: [
             {
-              type: "object",
-              properties: {
-                width: { type: "integer", default: 512 },
-                height: { type: "integer", default: 512 }
-              },
-              required: ["width", "height"]
-            }
-          ],
-          default: "square_hd"
-        },
-        rendering_speed: {
-          type: "string",
-          enum: ["TURBO", "BALANCED", "QUALITY"],
-          default: "BALANCED"
-        },
-        style: {
-          type: "string",
-          enum: ["AUTO", "GENERAL", "REALISTIC", "DESIGN"]
-        },
-        style_codes: {
-          type: "array",
-          items: { type: "string", pattern: "^[0-9A-Fa-f]{8}$" }
-        },
-        style_preset: {
-          type: "string",
-          enum: ["80S_ILLUSTRATION", "90S_NOSTALGIA", "ABSTRACT_ORGANIC", "ANALOG_NOSTALGIA", "ART_BRUT", "ART_DECO", "ART_POSTER", "AURA", "AVANT_GARDE", "BAUHAUS", "BLUEPRINT", "BLURRY_MOTION", "BRIGHT_ART", "C4D_CARTOON", "CHILDRENS_BOOK", "COLLAGE", "COLORING_BOOK_I", "COLORING_BOOK_II", "CUBISM", "DARK_AURA", "DOODLE", "DOUBLE_EXPOSURE", "DRAMATIC_CINEMA", "EDITORIAL", "EMOTIONAL_MINIMAL", "ETHEREAL_PARTY", "EXPIRED_FILM", "FLAT_ART", "FLAT_VECTOR", "FOREST_REVERIE", "GEO_MINIMALIST", "GLASS_PRISM", "GOLDEN_HOUR", "GRAFFITI_I", "GRAFFITI_II", "HALFTONE_PRINT", "HIGH_CONTRAST", "HIPPIE_ERA", "ICONIC", "JAPANDI_FUSION", "JAZZY", "LONG_EXPOSURE", "MAGAZINE_EDITORIAL", "MINIMAL_ILLUSTRATION", "MIXED_MEDIA", "MONOCHROME", "NIGHTLIFE", "OIL_PAINTING", "OLD_CARTOONS", "PAINT_GESTURE", "POP_ART", "RETRO_ETCHING", "RIVIERA_POP", "SPOTLIGHT_80S", "STYLIZED_RED", "SURREAL_COLLAGE", "TRAVEL_POSTER", "VINTAGE_GEO", "VINTAGE_POSTER", "WATERCOLOR", "WEIRD", "WOODBLOCK_PRINT"]
-        },
-        color_palette: {
-          type: "object",
-          properties: {
-            name: {
-              type: "string",
-              enum: ["EMBER", "FRESH", "JUNGLE", "MAGIC", "MELON", "MOSAIC", "PASTEL", "ULTRAMARINE"]
-            },
-            members: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  rgb: {
-                    type: "object",
-                    properties: {
-                      r: { type: "integer", minimum: 0, maximum: 255 },
-                      g: { type: "integer", minimum: 0, maximum: 255 },
-                      b: { type: "integer", minimum: 0, maximum: 255 }
-                    },
-                    required: ["r", "g", "b"]
-                  },
-                  color_weight: { type: "number", default: 0.5 }
-                },
-                required: ["rgb"]
-              }
+              type: "text",
+              text: `Deleted brand kit "${name}".`
             }
-          }
-        },
-        image_urls: {
-          type: "array",
-          items: { type: "string" }
-        },
-        expand_prompt: {
-          type: "boolean",
-          default: true
-        },
-        num_images: {
-          type: "integer",
-          default: 1,
-          minimum: 1,
-          maximum: 8
-        },
-        seed: {
-          type: "integer"
-        },
-        webhook_url: {
-          type: "string",
-          description: "Optional webhook URL for result notifications"
+          ],
+          structuredContent: { name, deleted: true }
+        };
+
+      } catch (error) {
+        console.error('Error deleting brand kit:', error);
+
+        let errorMessage = "Failed to delete brand kit.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
         }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Re-run a generation from the metadata of an image file
+  server.registerTool(
+    "ideogram_v3_reproduce",
+    {
+      description: "Read the generation metadata embedded in (or stored next to) an image file created by this server and re-run the exact same generation, optionally with some parameters changed",
+      inputSchema: {
+        file_path: z.string().min(1).describe("Path of an image downloaded by this server"),
+        overrides: z.record(z.unknown()).optional().describe("Parameters to change, e.g. {\"num_images\": 2} or {\"prompt\": \"...\"}. Everything else, including the seed, is taken from the original request"),
+        postprocess: PostprocessSchema.optional(),
+        dry_run: z.boolean().optional().describe("Return the fully resolved request payload without generating anything or uploading local images"),
+        include_image_data: z.boolean().optional().describe("Return the images as inline image content (downscaled to fit the server's size budget). Defaults to the server setting")
       },
-      required: ["prompt"]
-    }
-  },
-  async (args: any) => {
-    if (!falConfigured) {
-      return {
-        content: [{
-          type: "text",
-          text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
-        }],
-        isError: true
-      };
-    }
+      outputSchema: reproduceOutputShape
+    },
+    withErrorContent(async (args, extra) => {
+      const { file_path, overrides = {}, include_image_data = inlineDefaults.enabled, postprocess, dry_run } = args;
 
-    const { webhook_url, ...input } = args;
-    
-    try {
-      // Validate that style and style_codes are not used together
-      if (input.style && input.style_codes && input.style_codes.length > 0) {
+      // Check if fal.ai client is configured; a dry run does not need it
+      if (!backend && !dry_run) {
         return {
           content: [{
             type: "text",
-            text: "Error: Cannot use both 'style' and 'style_codes' parameters together. Please use only one."
+            text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
           }],
           isError: true
         };
       }
+      const filePath = resolveFilePath(file_path);
+
+      try {
+        const found = await readMetadataFile(filePath);
+        if (!found) {
+          return {
+            content: [{
+              type: "text",
+              text: `Error: No generation metadata found in ${filePath} or ${sidecarPath(filePath)}`
+            }],
+            isError: true
+          };
+        }
 
-      console.error(`Submitting queue request for fal-ai/ideogram/v3 - prompt: "${input.prompt}"`);
+        const { metadata, source } = found;
+        const schema = REPRODUCIBLE_ENDPOINTS[metadata.model];
+        if (!schema) {
+          return {
+            content: [{
+              type: "text",
+              text: `Error: Generations of ${metadata.model} cannot be reproduced`
+            }],
+            isError: true
+          };
+        }
 
-      const result = await fal.queue.submit("fal-ai/ideogram/v3", {
-        input,
-        webhookUrl: webhook_url
-      });
+        // The original input with its resolved seed, then the requested changes
+        const parsed = parseWithSchema(schema, {
+          ...metadata.input,
+          ...(metadata.seed !== undefined ? { seed: metadata.seed } : {}),
+          ...overrides
+        });
+        if (!parsed.success) {
+          return {
+            content: [{
+              type: "text",
+              text: `Error: ${parsed.error}`
+            }],
+            isError: true
+          };
+        }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Successfully submitted image generation request to queue.
+        const changed = Object.keys(overrides);
+        const settings = [
+          `Source File: ${filePath} (metadata ${source === "embedded" ? "embedded in the file" : "from sidecar"})`,
+          metadata.request_id ? `Original Request ID: ${metadata.request_id}` : '',
+          parsed.data.prompt ? `Prompt: "${parsed.data.prompt}"` : '',
+          changed.length > 0 ? `Overrides: ${changed.join(', ')}` : 'Overrides: none'
+        ];
+        const reproduceOutput = { source_file: filePath, metadata_source: source, overrides: changed };
+
+        if (dry_run) {
+          const prepared = metadata.model === "fal-ai/ideogram/v3"
+            ? await prepareGeneration(parsed.data, true)
+            : await prepareImageEndpoint(metadata.model, parsed.data, "ideogram_v3_reproduce", true);
+          return formatDryRunResponse(settings, prepared, reproduceOutput);
+        }
 
-Request ID: ${result.request_id}
-Prompt: "${input.prompt}"
-${webhook_url ? `Webhook URL: ${webhook_url}` : 'No webhook configured'}
+        const run = metadata.model === "fal-ai/ideogram/v3"
+          ? await runGeneration(parsed.data, "ideogram_v3_reproduce", { postprocess, progress: new ProgressReporter(extra), signal: extra.signal, usage: usageContext(extra) })
+          : await runImageEndpoint(metadata.model, parsed.data, "ideogram_v3_reproduce", { postprocess, progress: new ProgressReporter(extra), signal: extra.signal, usage: usageContext(extra) });
 
-Use the request ID with ideogram_v3_queue_status to check progress or ideogram_v3_queue_result to get the final result.`
-          }
-        ]
-      };
+        return await formatRunResponse(`Reproduced ${metadata.model} generation with ${run.downloadedImages.length} image(s)`, settings, run, include_image_data, reproduceOutput);
 
-    } catch (error) {
-      console.error('Error submitting queue request:', error);
-      
-      let errorMessage = "Failed to submit queue request for fal-ai/ideogram/v3.";
-      if (error instanceof Error) {
-        errorMessage += ` Error: ${error.message}`;
-      }
+      } catch (error) {
+        console.error('Error reproducing generation:', error);
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: errorMessage
-          }
-        ],
-        isError: true
-      };
-    }
-  }
-);
-
-// Tool: Check queue status
-server.tool(
-  "ideogram_v3_queue_status",
-  {
-    description: "Check the status of a queued image generation request",
-    inputSchema: {
-      type: "object",
-      properties: {
-        request_id: {
-          type: "string",
-          description: "The request ID from queue submission"
-        },
-        logs: {
-          type: "boolean",
-          description: "Include logs in response",
-          default: true
+        let errorMessage = "Failed to reproduce generation.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
         }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Generate variations of an earlier generation
+  server.registerTool(
+    "ideogram_v3_variations",
+    {
+      description: `Generate variations of an earlier generation with every other parameter held fixed: new results over neighboring or random seeds, or one parameter (such as style_preset or color_palette) swept with the seed locked. Each variation is recorded in history as a child of the source, see ideogram_v3_history_get. Limited to ${MAX_VARIATIONS} generations per call`,
+      inputSchema: {
+        source: z.string().min(1).describe("The history ID or fal request ID of the generation to vary"),
+        count: z.number().int().min(1).max(MAX_VARIATIONS).default(4).describe("Number of seed variations, not used with sweep"),
+        seed_strategy: z.enum(SEED_STRATEGIES).default("neighbors").describe("neighbors uses the seeds following the source seed, random draws new seeds"),
+        sweep: VariationSweepSchema.optional(),
+        max_concurrency: z.number().int().min(1).max(4).default(2).describe("Maximum number of generations running at the same time"),
+        dry_run: z.boolean().optional().describe("Return the fully resolved request payload of every variation without generating anything or uploading local images")
       },
-      required: ["request_id"]
-    }
-  },
-  async (args: any) => {
-    if (!falConfigured) {
-      return {
-        content: [{
-          type: "text",
-          text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
-        }],
-        isError: true
-      };
-    }
+      outputSchema: variationsOutputShape
+    },
+    withErrorContent(async (args, extra) => {
+      const { source, count, seed_strategy, sweep, max_concurrency, dry_run } = args;
 
-    const { request_id, logs = true } = args;
-    
-    try {
-      console.error(`Checking status for request: ${request_id}`);
+      if (!backend && !dry_run) {
+        return {
+          content: [{
+            type: "text",
+            text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
+          }],
+          isError: true
+        };
+      }
 
-      const status = await fal.queue.status("fal-ai/ideogram/v3", {
-        requestId: request_id,
-        logs
-      });
+      try {
+        const entry = await history.get(source);
+        if (!entry) {
+          return {
+            content: [{
+              type: "text",
+              text: `Error: No history entry found for ID: ${source}`
+            }],
+            isError: true
+          };
+        }
 
-      let responseText = `Queue Status for Request ID: ${request_id}
+        const endpoint = entryEndpoint(entry);
+        const schema = endpoint ? REPRODUCIBLE_ENDPOINTS[endpoint] : undefined;
+        if (!endpoint || !schema) {
+          return {
+            content: [{
+              type: "text",
+              text: `Error: Generations recorded by ${entry.tool} cannot be varied`
+            }],
+            isError: true
+          };
+        }
 
-Status: ${status.status}`;
+        const planned = planVariations(entry.seed, { count, seed_strategy, sweep });
+        const parameter = planned[0].variation.parameter;
+        const base = entryParameters(entry);
+        const sourceOutput = { history_id: entry.id, request_id: entry.request_id, endpoint, seed: entry.seed };
 
-      if (status.response_url) {
-        responseText += `\nResponse URL: ${status.response_url}`;
-      }
+        // The source request with the variation applied, validated like a new call
+        const prepareVariation = async (overrides: Record<string, unknown>, dryRun: boolean): Promise<PreparedRun> => {
+          const parsed = parseWithSchema(schema, { ...base, ...overrides });
+          if (!parsed.success) {
+            throw new Error(parsed.error);
+          }
+          return endpoint === "fal-ai/ideogram/v3"
+            ? prepareGeneration(parsed.data, dryRun)
+            : prepareImageEndpoint(endpoint, parsed.data, "ideogram_v3_variations", dryRun);
+        };
 
-      // Handle logs if available (logs might be in different property depending on status)
-      const statusAny = status as any;
-      if (statusAny.logs && statusAny.logs.length > 0) {
-        responseText += `\n\nLogs:\n${statusAny.logs.map((log: any) => `[${log.timestamp}] ${log.message}`).join('\n')}`;
-      }
+        const sourceLine = `Source: ${entry.id}${entry.request_id ? ` (request ${entry.request_id})` : ''}, seed ${entry.seed ?? 'unknown'}`;
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: responseText
-          }
-        ]
-      };
+        if (dry_run) {
+          const prepared = await mapWithConcurrency(planned, 1, async (variation) => {
+            try {
+              return { variation, input: (await prepareVariation(variation.overrides, true)).input, error: undefined };
+            } catch (error) {
+              return { variation, input: undefined, error: error instanceof Error ? error.message : String(error) };
+            }
+          });
+          const valid = prepared.filter(item => item.input).length;
 
-    } catch (error) {
-      console.error('Error checking queue status:', error);
-      
-      let errorMessage = "Failed to check queue status.";
-      if (error instanceof Error) {
-        errorMessage += ` Error: ${error.message}`;
-      }
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Dry run: nothing was sent to ${endpoint}. ${valid} of ${planned.length} variation(s) are valid.
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: errorMessage
-          }
-        ],
-        isError: true
-      };
-    }
-  }
-);
+${sourceLine}
+Varied: ${parameter}
 
-// Tool: Get queue result
-server.tool(
-  "ideogram_v3_queue_result",
-  {
-    description: "Get the result of a completed queued image generation request",
-    inputSchema: {
-      type: "object",
-      properties: {
-        request_id: {
-          type: "string",
-          description: "The request ID from queue submission"
+${prepared.map(({ variation, input, error }) => `Variation ${variation.index} (${formatVariation(variation.variation)}):\n${input ? JSON.stringify(input, null, 2) : `Invalid: ${error}`}`).join('\n\n')}`
+              }
+            ],
+            structuredContent: {
+              dry_run: true,
+              source: sourceOutput,
+              parameter,
+              total: planned.length,
+              variations: prepared.map(({ variation, input, error }) => ({ index: variation.index, value: variation.variation.value, parameters: input, error }))
+            },
+            isError: valid === 0
+          };
         }
-      },
-      required: ["request_id"]
-    }
-  },
-  async (args: any) => {
-    if (!falConfigured) {
-      return {
-        content: [{
-          type: "text",
-          text: "Error: FAL_KEY environment variable is not set. Please configure your fal.ai API key."
-        }],
-        isError: true
-      };
-    }
 
-    const { request_id } = args;
-    
-    try {
-      console.error(`Getting result for request: ${request_id}`);
+        console.error(`Running ${planned.length} variation(s) of ${entry.id} with concurrency ${max_concurrency}`);
+
+        const progress = new ProgressReporter(extra);
+        let finished = 0;
+
+        const outcomes = await mapWithConcurrency(planned, max_concurrency, async (variation) => {
+          try {
+            const prepared = await prepareVariation(variation.overrides, false);
+            const run = await runEndpoint(
+              prepared.endpoint,
+              prepared.input,
+              "ideogram_v3_variations",
+              { ...prepared.fields, parent_id: entry.id, variation: variation.variation },
+              prepared.namePrefix,
+              { signal: extra.signal, usage: usageContext(extra) }
+            );
+            return { variation, run, error: null };
+          } catch (error) {
+            console.error(`Variation ${variation.index} failed:`, error);
+            return { variation, run: null, error: error instanceof Error ? error.message : String(error) };
+          } finally {
+            await progress.report(`Finished ${++finished} of ${planned.length} variation(s)`);
+          }
+        });
 
-      const result = await fal.queue.result("fal-ai/ideogram/v3", {
-        requestId: request_id
-      });
+        const succeeded = outcomes.filter(outcome => outcome.run).length;
 
-      const output = result.data as IdeogramImageResult;
+        const rows = outcomes.map(({ variation, run, error }) => {
+          const status = run ? `OK (${run.downloadedImages.length} image(s))` : `FAILED: ${error}`;
+          const seedStr = run?.output.seed !== undefined ? String(run.output.seed) : '-';
+          return `| ${variation.index} | ${formatAxisValue(variation.variation.value)} | ${status.replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|')} | ${seedStr} | ${run?.historyEntry?.id ?? '-'} |`;
+        });
 
-      // Download images locally
-      console.error("Downloading images locally...");
-      const downloadedImages = [];
+        const details = outcomes
+          .filter(outcome => outcome.run)
+          .map(({ variation, run }) => `Variation ${variation.index}:\n${formatImageDetails(run!.downloadedImages)}`)
+          .join('\n\n');
 
-      for (let i = 0; i < output.images.length; i++) {
-        const image = output.images[i];
-        const filename = generateImageFilename(`queue_result_${request_id}`, i + 1, output.seed);
-        
-        try {
-          const localPath = await downloadImage(image.url, filename);
-          downloadedImages.push({
-            url: image.url,
-            localPath,
-            index: i + 1,
-            content_type: image.content_type || 'image/png',
-            file_name: image.file_name || filename,
-            file_size: image.file_size,
-            filename
-          });
-          console.error(`Downloaded: ${filename}`);
-        } catch (downloadError) {
-          console.error(`Failed to download image ${i + 1}:`, downloadError);
-          downloadedImages.push({
-            url: image.url,
-            localPath: null,
-            index: i + 1,
-            content_type: image.content_type || 'image/png',
-            file_name: image.file_name || filename,
-            file_size: image.file_size,
-            filename
-          });
-        }
-      }
+        const responseText = `Variations finished: ${succeeded} of ${planned.length} variation(s) succeeded.
 
-      const imageDetails = downloadedImages.map(img => {
-        let details = `Image ${img.index}:`;
-        if (img.localPath) {
-          details += `\n  Local Path: ${img.localPath}`;
-        }
-        details += `\n  Original URL: ${img.url}`;
-        details += `\n  Filename: ${img.filename}`;
-        details += `\n  Content Type: ${img.content_type}`;
-        if (img.file_size) {
-          details += `\n  File Size: ${img.file_size} bytes`;
-        }
-        return details;
-      }).join('\n\n');
+${sourceLine}
+Prompt: "${entry.prompt ?? '(none)'}"
+Varied: ${parameter}
 
-      const responseText = `Queue Result for Request ID: ${request_id}
+| # | ${parameter} | Result | Seed | History ID |
+|${' --- |'.repeat(5)}
+${rows.join('\n')}
+${details ? `\nGenerated Images:\n${details}\n` : ''}
+Use ideogram_v3_history_get with the source or a variation's history ID to browse the lineage.`;
 
-Successfully completed! Generated ${downloadedImages.length} image(s):
+        return {
+          content: [
+            {
+              type: "text",
+              text: responseText
+            }
+          ],
+          structuredContent: {
+            source: sourceOutput,
+            parameter,
+            succeeded,
+            total: planned.length,
+            variations: outcomes.map(({ variation, run, error }) => ({
+              index: variation.index,
+              value: variation.variation.value,
+              request_id: run?.result.requestId,
+              seed: run?.output.seed,
+              history_id: run?.historyEntry?.id,
+              images: run ? toImageOutputs(run.downloadedImages) : undefined,
+              error: error ?? undefined
+            }))
+          },
+          isError: succeeded === 0
+        };
 
-${output.seed ? `Seed: ${output.seed}` : 'Seed: Auto-generated'}
+      } catch (error) {
+        console.error('Error generating variations:', error);
 
-Generated Images:
-${imageDetails}
+        let errorMessage = "Failed to generate variations.";
+        if (error instanceof Error) {
+          errorMessage += ` Error: ${error.message}`;
+        }
 
-${downloadedImages.some(img => img.localPath) ? 'Images have been downloaded to the local \'images\' directory.' : 'Note: Local download failed, but original URLs are available.'}`;
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Tool: Post-process image files on disk
+  server.registerTool(
+    "ideogram_v3_postprocess",
+    {
+      description: "Convert, resize, crop or thumbnail image files on disk, such as images downloaded earlier. The derived files are written next to the originals, or to output_dir",
+      inputSchema: {
+        file_paths: z.array(z.string().min(1)).min(1, "At least one file path is required").describe("Paths of the images to process"),
+        ...PostprocessSchema.shape,
+        output_dir: z.string().min(1).optional().describe("Directory for the derived files, defaults to the directory of each source file")
+      },
+      outputSchema: postprocessOutputShape
+    },
+    withErrorContent(async (args) => {
+      const { file_paths, output_dir, ...options } = args;
 
-      return {
-        content: [
-          {
+      if (!options.format && options.quality === undefined && !options.crop && !options.resize && !options.thumbnail && !options.strip_metadata) {
+        return {
+          content: [{
             type: "text",
-            text: responseText
-          }
-        ]
-      };
+            text: "Error: Nothing to do. Set at least one of format, quality, crop, resize, thumbnail or strip_metadata"
+          }],
+          isError: true
+        };
+      }
 
-    } catch (error) {
-      console.error('Error getting queue result:', error);
-      
-      let errorMessage = "Failed to get queue result.";
-      if (error instanceof Error) {
-        errorMessage += ` Error: ${error.message}`;
+      // Files are processed independently, so one bad file does not stop the others
+      const results: string[] = [];
+      const files: Array<{ source: string; derived: HistoryDerivedImage[]; error?: string }> = [];
+      let failures = 0;
+      for (const file_path of file_paths) {
+        const filePath = resolveFilePath(file_path);
+        try {
+          const data = await fs.promises.readFile(filePath);
+          const metadata = options.strip_metadata ? null : await readMetadataFile(filePath).catch(() => null);
+          const target = new LocalStorageBackend(output_dir ? resolveFilePath(output_dir) : path.dirname(filePath), "none");
+          const derived = await deriveImages(target, path.basename(filePath), data, options, metadata?.metadata);
+
+          results.push([
+            `${filePath}:`,
+            ...derived.map(file => `  ${file.kind === "thumbnail" ? 'Thumbnail' : 'Processed'}: ${file.stored.location} (${file.width}x${file.height}, ${file.content_type}, ${file.file_size} bytes)`)
+          ].join('\n'));
+          files.push({ source: filePath, derived: derived.map(toHistoryDerivedImage) });
+        } catch (error) {
+          console.error(`Error post-processing ${filePath}:`, error);
+          failures++;
+          const message = error instanceof Error ? error.message : String(error);
+          results.push(`${filePath}:\n  Failed: ${message}`);
+          files.push({ source: filePath, derived: [], error: message });
+        }
       }
 
       return {
         content: [
           {
             type: "text",
-            text: errorMessage
+            text: `Post-processed ${file_paths.length - failures} of ${file_paths.length} file(s):\n\n${results.join('\n\n')}`
           }
         ],
-        isError: true
+        structuredContent: { files, processed: file_paths.length - failures },
+        isError: failures === file_paths.length
       };
-    }
-  }
-);
+    })
+  );
+
+  return server;
+}
 
 // Handle shutdown gracefully
 process.on('SIGINT', () => {
@@ -829,8 +3228,31 @@ process.on('SIGTERM', () => {
 });
 
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  let httpOptions: HttpTransportOptions | null;
+  try {
+    httpOptions = httpTransportOptions();
+  } catch (error) {
+    console.error(`Transport is misconfigured: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  if (httpOptions) {
+    await startHttpTransport(httpOptions, createServer, () => ({
+      fal_configured: backend?.name === "fal",
+      backend: backend ? backend.describe() : "unavailable (FAL_KEY is not set)",
+      storage: storage ? storage.describe() : `unavailable (${storageError})`
+    }));
+  } else {
+    const transport = new StdioServerTransport();
+    await createServer().connect(transport);
+  }
+  startQueuePoller();
+
+  if (webhookOptions) {
+    await startWebhookServer(webhookOptions, handleWebhookDelivery).catch(error => {
+      console.error('Failed to start webhook listener:', error);
+    });
+  }
 }
 
 main().catch((error) => {
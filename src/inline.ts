@@ -0,0 +1,99 @@
+import sharp from "sharp";
+
+export interface InlineImageOptions {
+  maxDimension: number;
+  maxBytes: number;
+}
+
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  resized: boolean;
+}
+
+// Quality steps tried when re-encoding an image that is over its byte budget
+const QUALITY_STEPS = [85, 70, 55, 40];
+const MIN_DIMENSION = 128;
+
+function parsePositiveInt(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Server-wide defaults for inline image content, read from the environment
+export function inlineImageDefaults(env: NodeJS.ProcessEnv = process.env): InlineImageOptions & { enabled: boolean } {
+  return {
+    enabled: env.IDEOGRAM_INLINE_IMAGES === "true",
+    maxDimension: parsePositiveInt(env.IDEOGRAM_INLINE_MAX_DIMENSION, 1024, 'IDEOGRAM_INLINE_MAX_DIMENSION'),
+    maxBytes: parsePositiveInt(env.IDEOGRAM_INLINE_MAX_BYTES, 4 * 1024 * 1024, 'IDEOGRAM_INLINE_MAX_BYTES')
+  };
+}
+
+type EncodeFormat = "png" | "jpeg" | "webp";
+
+async function encode(data: Buffer, format: EncodeFormat, dimension: number, quality: number): Promise<Buffer> {
+  const pipeline = sharp(data).rotate().resize({
+    width: dimension,
+    height: dimension,
+    fit: "inside",
+    withoutEnlargement: true
+  });
+
+  switch (format) {
+    case "png":
+      return pipeline.png({ compressionLevel: 9 }).toBuffer();
+    case "webp":
+      return pipeline.webp({ quality }).toBuffer();
+    default:
+      return pipeline.jpeg({ quality, mozjpeg: true }).toBuffer();
+  }
+}
+
+// Prepare an image for an MCP image content block, downscaling it to the
+// dimension limit and re-encoding until it fits the byte budget.
+// Returns null when the image cannot be made small enough.
+export async function toInlineImage(data: Buffer, contentType: string, options: InlineImageOptions): Promise<InlineImage | null> {
+  const metadata = await sharp(data).metadata();
+  const width = metadata.width ?? 0;
+  const height = metadata.height ?? 0;
+
+  if (data.length <= options.maxBytes && Math.max(width, height) <= options.maxDimension) {
+    return { data: data.toString('base64'), mimeType: contentType, width, height, resized: false };
+  }
+
+  const sourceFormat: EncodeFormat = contentType === "image/webp" ? "webp" : contentType === "image/jpeg" ? "jpeg" : "png";
+  let dimension = Math.min(options.maxDimension, Math.max(width, height) || options.maxDimension);
+
+  // Keep the original format if resizing alone is enough
+  let encoded = await encode(data, sourceFormat, dimension, QUALITY_STEPS[0]);
+  let format = sourceFormat;
+
+  while (encoded.length > options.maxBytes) {
+    // PNG does not compress photographs well, fall back to JPEG
+    format = sourceFormat === "png" ? "jpeg" : sourceFormat;
+
+    for (const quality of QUALITY_STEPS) {
+      encoded = await encode(data, format, dimension, quality);
+      if (encoded.length <= options.maxBytes) break;
+    }
+
+    if (encoded.length <= options.maxBytes) break;
+    if (dimension <= MIN_DIMENSION) return null;
+    dimension = Math.max(MIN_DIMENSION, Math.floor(dimension * 0.75));
+  }
+
+  const resizedMetadata = await sharp(encoded).metadata();
+  return {
+    data: encoded.toString('base64'),
+    mimeType: `image/${format}`,
+    width: resizedMetadata.width,
+    height: resizedMetadata.height,
+    resized: true
+  };
+}
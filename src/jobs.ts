@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PostprocessOptions } from "./postprocess.js";
+
+export const JOB_STATUSES = ["IN_QUEUE", "IN_PROGRESS", "COMPLETED", "DOWNLOADED", "FAILED", "CANCELLED"] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// A request submitted through ideogram_v3_generate_queue
+export interface TrackedJob {
+  request_id: string;
+  prompt: string;
+  params: Record<string, unknown>;
+  webhook_url?: string;
+  // Applied to the images when the result is downloaded
+  postprocess?: PostprocessOptions;
+  submitted_at: string;
+  status: JobStatus;
+  updated_at: string;
+  queue_position?: number;
+  history_id?: string;
+  poll_failures: number;
+  error?: string;
+  // Set by ideogram_v3_queue_cancel; the job stays pending until fal.ai reports how it ended
+  cancel_requested_at?: string;
+}
+
+// Seconds between polls of pending jobs when IDEOGRAM_QUEUE_POLL_INTERVAL is not set
+export const DEFAULT_QUEUE_POLL_INTERVAL = 10;
+
+// Read how often pending jobs are polled, in milliseconds; 0 disables polling
+export function queuePollInterval(env: NodeJS.ProcessEnv = process.env): number {
+  const raw = env.IDEOGRAM_QUEUE_POLL_INTERVAL;
+  if (raw === undefined || raw === '') return DEFAULT_QUEUE_POLL_INTERVAL * 1000;
+
+  const seconds = Number(raw);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new Error(`IDEOGRAM_QUEUE_POLL_INTERVAL must be a non-negative number of seconds, got "${raw}". Use 0 to disable polling`);
+  }
+  return seconds * 1000;
+}
+
+// Jobs that still need polling
+export function isPending(job: TrackedJob): boolean {
+  return job.status === "IN_QUEUE" || job.status === "IN_PROGRESS" || job.status === "COMPLETED";
+}
+
+// Persists submitted queue jobs in a JSON file so they survive restarts
+export class JobStore {
+  private jobs = new Map<string, TrackedJob>();
+  private loaded = false;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const raw = await fs.promises.readFile(this.filePath, 'utf8');
+      for (const job of JSON.parse(raw) as TrackedJob[]) {
+        this.jobs.set(job.request_id, job);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load tracked jobs from ${this.filePath}:`, error);
+      }
+    }
+  }
+
+  async add(job: Omit<TrackedJob, "status" | "updated_at" | "poll_failures">): Promise<TrackedJob> {
+    await this.load();
+    const tracked: TrackedJob = {
+      ...job,
+      status: "IN_QUEUE",
+      updated_at: new Date().toISOString(),
+      poll_failures: 0
+    };
+    this.jobs.set(job.request_id, tracked);
+    await this.persist();
+    return tracked;
+  }
+
+  async get(requestId: string): Promise<TrackedJob | undefined> {
+    await this.load();
+    return this.jobs.get(requestId);
+  }
+
+  async update(requestId: string, changes: Partial<TrackedJob>): Promise<TrackedJob | undefined> {
+    await this.load();
+    const job = this.jobs.get(requestId);
+    if (!job) return undefined;
+
+    Object.assign(job, changes, { updated_at: new Date().toISOString() });
+    await this.persist();
+    return job;
+  }
+
+  // Newest submissions first
+  async list(status?: JobStatus): Promise<TrackedJob[]> {
+    await this.load();
+    return [...this.jobs.values()]
+      .filter(job => !status || job.status === status)
+      .sort((a, b) => b.submitted_at.localeCompare(a.submitted_at));
+  }
+
+  // Writes are serialized and go through a temp file so a crash never leaves a truncated file
+  private persist(): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      const snapshot = JSON.stringify([...this.jobs.values()], null, 2);
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, snapshot, 'utf8');
+      await fs.promises.rename(tempPath, this.filePath);
+    }).catch(error => {
+      console.error(`Failed to save tracked jobs to ${this.filePath}:`, error);
+    });
+    return this.writing;
+  }
+}
+
+export function formatJob(job: TrackedJob): string {
+  const lines = [
+    `Request ID: ${job.request_id}`,
+    `Status: ${job.status}${job.queue_position !== undefined && job.status === "IN_QUEUE" ? ` (position ${job.queue_position})` : ''}`,
+    `Prompt: "${job.prompt}"`,
+    `Submitted: ${job.submitted_at}`,
+    `Updated: ${job.updated_at}`
+  ];
+  if (job.webhook_url) lines.push(`Webhook URL: ${job.webhook_url}`);
+  if (job.history_id) lines.push(`History ID: ${job.history_id}`);
+  if (job.error) lines.push(`Error: ${job.error}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,261 @@
+export const LINT_SEVERITIES = ["info", "warning", "error"] as const;
+export type LintSeverity = typeof LINT_SEVERITIES[number];
+
+export const LINT_MODES = ["warn", "strict"] as const;
+export type LintMode = typeof LINT_MODES[number];
+
+// A quoted string meant to be rendered in the image
+export interface PromptText {
+  text: string;
+  words: number;
+  characters: number;
+  lines: number;
+  // Whether words around the quote say it is text to render, such as "a sign reading"
+  has_cue: boolean;
+}
+
+export interface LintWarning {
+  code: string;
+  severity: LintSeverity;
+  message: string;
+  text?: string;
+}
+
+export interface PromptLint {
+  texts: PromptText[];
+  warnings: LintWarning[];
+  suggested_prompt?: string;
+  suggested_negative_prompt?: string;
+  suggested_expand_prompt?: boolean;
+}
+
+// Copy longer than this often comes out misspelled or cut off
+const MAX_TEXT_WORDS = 8;
+const MAX_TEXT_CHARACTERS = 60;
+const MAX_TEXTS = 3;
+
+// Copy after this many words tends to get less attention than the scene description
+const MAX_WORDS_BEFORE_TEXT = 25;
+
+// Closing quote of each opening quote; straight single quotes are handled separately because they double as apostrophes
+const QUOTE_PAIRS: Record<string, string> = { '"': '"', '“': '”', '„': '“', '«': '»', '‘': '’' };
+const STRAY_CLOSERS = new Set(['”', '»']);
+
+const TEXT_CUE = /\b(text|reads?|reading|says?|saying|titled|title|headline|heading|caption(ed)?|label(ed|led)?|logo|sign|signage|lettering|letters|words?|writes|written|writing|typography|font|slogan|tagline|banner|spell(s|ed|ing)?)\b/i;
+const TEXT_BLOCKER = /\b(text|texts|words?|letters?|lettering|typography|writing|captions?|fonts?|signs?|logos?|watermarks?|signatures?)\b/gi;
+const LINE_BREAK = /\r?\n|\\n/;
+
+// Words too common to signal a contradiction between the prompt and the negative prompt
+const STOPWORDS = new Set([
+  "with", "that", "this", "from", "into", "onto", "over", "under", "very", "more", "most", "some", "than", "then",
+  "them", "they", "their", "there", "where", "which", "while", "about", "above", "below", "image", "picture",
+  "photo", "quality", "style", "detail", "details", "detailed", "background", "foreground"
+]);
+
+interface QuotedSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function countWords(text: string): number {
+  return text.trim() ? text.trim().split(/\s+/).length : 0;
+}
+
+// Find the quoted strings of a prompt and the quotes that are never closed
+function findQuotes(prompt: string): { spans: QuotedSpan[]; unbalanced: string[] } {
+  const spans: QuotedSpan[] = [];
+  const unbalanced: string[] = [];
+
+  for (let i = 0; i < prompt.length; i++) {
+    const char = prompt[i];
+    const closer = QUOTE_PAIRS[char];
+
+    if (closer) {
+      const end = prompt.indexOf(closer, i + 1);
+      if (end < 0) {
+        unbalanced.push(`${char}${prompt.slice(i + 1, i + 31)}${prompt.length > i + 31 ? '...' : ''}`);
+        break;
+      }
+      spans.push({ text: prompt.slice(i + 1, end), start: i, end: end + 1 });
+      i = end;
+    } else if (STRAY_CLOSERS.has(char)) {
+      unbalanced.push(`...${prompt.slice(Math.max(0, i - 30), i + 1)}`);
+    } else if (char === "'" && (i === 0 || /[\s([:]/.test(prompt[i - 1]))) {
+      // A single quote after a space opens a quote only when a matching one ends a word later on
+      const match = /^'([^']+)'(?=$|[\s.,;:!?)\]])/.exec(prompt.slice(i));
+      if (match) {
+        spans.push({ text: match[1], start: i, end: i + match[0].length });
+        i += match[0].length - 1;
+      }
+    }
+  }
+  return { spans, unbalanced };
+}
+
+function hasTextCue(prompt: string, span: QuotedSpan): boolean {
+  const before = prompt.slice(Math.max(0, span.start - 40), span.start);
+  const after = prompt.slice(span.end, span.end + 30);
+  return TEXT_CUE.test(before) || TEXT_CUE.test(after);
+}
+
+// Content words of a text, leaving out words the prompt negates ("no people", "without text")
+function contentWords(text: string): Set<string> {
+  const words = new Set<string>();
+  const tokens = text.toLowerCase().match(/[a-z][a-z'-]*/g) ?? [];
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    if (token.length < 4 || STOPWORDS.has(token) || previous === "no" || previous === "not" || previous === "without") return;
+    words.add(token);
+  });
+  return words;
+}
+
+// Quote copy with straight double quotes, one quoted string per line of multi-line copy
+function quoteCopy(text: string): string {
+  const lines = text.split(LINE_BREAK).map(line => line.trim()).filter(Boolean);
+  if (lines.length <= 1) return `"${text.trim()}"`;
+  const quoted = lines.map(line => `"${line}"`);
+  return `${quoted.slice(0, -1).join(', ')} and ${quoted[quoted.length - 1]} on separate lines`;
+}
+
+// Split a prompt into sentences, ignoring sentence ends inside quotes
+function splitSentences(prompt: string): string[] {
+  const sentences: string[] = [];
+  let inQuote = false;
+  let start = 0;
+  for (let i = 0; i < prompt.length; i++) {
+    if (prompt[i] === '"') inQuote = !inQuote;
+    if (!inQuote && /[.!?]/.test(prompt[i]) && (i + 1 === prompt.length || /\s/.test(prompt[i + 1]))) {
+      sentences.push(prompt.slice(start, i + 1).trim());
+      start = i + 1;
+    }
+  }
+  if (prompt.slice(start).trim()) sentences.push(prompt.slice(start).trim());
+  return sentences;
+}
+
+function rewritePrompt(prompt: string, spans: QuotedSpan[], buried: boolean): string {
+  let rewritten = '';
+  let last = 0;
+  for (const span of spans) {
+    rewritten += prompt.slice(last, span.start) + quoteCopy(span.text);
+    last = span.end;
+  }
+  rewritten = (rewritten + prompt.slice(last)).replace(/\s+/g, ' ').trim();
+
+  if (!buried) return rewritten;
+
+  // Lead with the sentences that carry the copy
+  const sentences = splitSentences(rewritten);
+  const withCopy = sentences.filter(sentence => sentence.includes('"'));
+  return [...withCopy, ...sentences.filter(sentence => !sentence.includes('"'))].join(' ');
+}
+
+// Drop the comma separated parts of a negative prompt that match any of the words
+function removeNegativeTerms(negativePrompt: string, matches: (part: string) => boolean): string {
+  return negativePrompt.split(',').map(part => part.trim()).filter(part => part && !matches(part)).join(', ');
+}
+
+// Check how a prompt's quoted copy will render, and suggest a rewrite
+export function lintPrompt(request: { prompt: string; negative_prompt?: string; expand_prompt?: boolean }): PromptLint {
+  const { prompt, negative_prompt = '', expand_prompt = true } = request;
+  const warnings: LintWarning[] = [];
+  const { spans, unbalanced } = findQuotes(prompt);
+
+  for (const fragment of unbalanced) {
+    warnings.push({ code: "unbalanced_quotes", severity: "error", message: `Unbalanced quote in ${JSON.stringify(fragment)}. The copy to render is ambiguous; close the quote or remove it`, text: fragment });
+  }
+
+  const texts: PromptText[] = spans.map(span => ({
+    text: span.text,
+    words: countWords(span.text),
+    characters: span.text.trim().length,
+    lines: span.text.split(LINE_BREAK).filter(line => line.trim()).length,
+    has_cue: hasTextCue(prompt, span)
+  }));
+
+  for (const text of texts) {
+    if (text.characters === 0) {
+      warnings.push({ code: "empty_text", severity: "warning", message: "Empty quotes: there is no copy to render between them", text: text.text });
+      continue;
+    }
+    if (text.lines > 1) {
+      warnings.push({ code: "multiline_text", severity: "warning", message: `"${text.text}" spans ${text.lines} lines. Line breaks inside a quote are not rendered reliably; quote each line separately and say how they are arranged`, text: text.text });
+    }
+    if (text.words > MAX_TEXT_WORDS || text.characters > MAX_TEXT_CHARACTERS) {
+      warnings.push({ code: "long_text", severity: "warning", message: `"${text.text}" has ${text.words} words and ${text.characters} characters. Copy longer than ${MAX_TEXT_WORDS} words or ${MAX_TEXT_CHARACTERS} characters often renders with misspellings or gets cut off; shorten it or split it into separate elements`, text: text.text });
+    }
+    if (!text.has_cue) {
+      warnings.push({ code: "missing_text_cue", severity: "info", message: `Nothing around "${text.text}" says it should be rendered as text, so it may be read as a description. Add a cue such as 'with the text "${text.text}"' or 'a sign reading "${text.text}"'`, text: text.text });
+    }
+  }
+
+  if (texts.length > MAX_TEXTS) {
+    warnings.push({ code: "many_texts", severity: "warning", message: `The prompt asks for ${texts.length} separate pieces of copy. More than ${MAX_TEXTS} rarely all render correctly; drop or merge some of them` });
+  }
+
+  const wordsBeforeText = spans.length > 0 ? countWords(prompt.slice(0, spans[0].start)) : 0;
+  const buried = wordsBeforeText > MAX_WORDS_BEFORE_TEXT;
+  if (buried) {
+    warnings.push({ code: "buried_text", severity: "warning", message: `The first quoted copy only appears after ${wordsBeforeText} words. Copy near the start of the prompt is rendered more reliably; lead with the sentence that contains it`, text: spans[0].text });
+  }
+
+  // Conflicts between the prompt and the negative prompt
+  let suggestedNegative = negative_prompt;
+  if (negative_prompt.trim()) {
+    const blockers = texts.length > 0 ? [...new Set((negative_prompt.match(TEXT_BLOCKER) ?? []).map(word => word.toLowerCase()))] : [];
+    if (blockers.length > 0) {
+      warnings.push({ code: "negative_blocks_text", severity: "error", message: `The negative prompt excludes ${blockers.join(', ')}, which works against the quoted copy the prompt asks for. Remove these terms from the negative prompt` });
+      suggestedNegative = removeNegativeTerms(suggestedNegative, part => new RegExp(TEXT_BLOCKER.source, 'i').test(part));
+    }
+
+    const promptWords = contentWords(prompt);
+    const shared = [...contentWords(negative_prompt)].filter(word => promptWords.has(word) && !blockers.includes(word));
+    if (shared.length > 0) {
+      warnings.push({ code: "prompt_negative_conflict", severity: "warning", message: `Both the prompt and the negative prompt mention ${shared.join(', ')}. The negative prompt can suppress what the prompt asks for; remove these words from one of them` });
+      suggestedNegative = removeNegativeTerms(suggestedNegative, part => [...contentWords(part)].some(word => shared.includes(word)));
+    }
+  }
+
+  // MagicPrompt rewrites the prompt, including its copy
+  let suggestedExpand: boolean | undefined;
+  if (texts.length > 0 && expand_prompt) {
+    warnings.push({ code: "expand_prompt_rewrites_text", severity: "warning", message: "expand_prompt is on, so MagicPrompt may rephrase the quoted copy or add text of its own. Set expand_prompt to false to render the copy exactly as written" });
+    suggestedExpand = false;
+  } else if (texts.length === 0 && !expand_prompt && countWords(prompt) < 6) {
+    warnings.push({ code: "short_prompt_without_expansion", severity: "info", message: "The prompt is very short and expand_prompt is off, so the model has little to work with. Describe the scene in more detail or turn expand_prompt on" });
+  }
+
+  const suggestedPrompt = unbalanced.length === 0 ? rewritePrompt(prompt, spans, buried) : undefined;
+  return {
+    texts,
+    warnings,
+    suggested_prompt: suggestedPrompt !== undefined && suggestedPrompt !== prompt.trim() ? suggestedPrompt : undefined,
+    suggested_negative_prompt: suggestedNegative !== negative_prompt ? suggestedNegative : undefined,
+    suggested_expand_prompt: suggestedExpand
+  };
+}
+
+// Whether a pre-flight check in this mode stops the generation
+export function lintBlocks(lint: PromptLint, mode: LintMode): boolean {
+  return lint.warnings.some(warning => warning.severity === "error" || (mode === "strict" && warning.severity === "warning"));
+}
+
+export function formatPromptLint(lint: PromptLint): string {
+  const lines: string[] = [];
+  if (lint.texts.length > 0) {
+    lines.push(`Quoted Copy:\n${lint.texts.map(text => `  "${text.text}" (${text.words} word(s), ${text.characters} character(s)${text.lines > 1 ? `, ${text.lines} lines` : ''})`).join('\n')}`);
+  } else {
+    lines.push('Quoted Copy: none');
+  }
+
+  lines.push(lint.warnings.length > 0
+    ? `Warnings:\n${lint.warnings.map(warning => `  [${warning.severity}] ${warning.code}: ${warning.message}`).join('\n')}`
+    : 'Warnings: none');
+
+  if (lint.suggested_prompt) lines.push(`Suggested Prompt: ${lint.suggested_prompt}`);
+  if (lint.suggested_negative_prompt !== undefined) lines.push(`Suggested Negative Prompt: ${lint.suggested_negative_prompt || '(empty)'}`);
+  if (lint.suggested_expand_prompt !== undefined) lines.push(`Suggested expand_prompt: ${lint.suggested_expand_prompt}`);
+  return lines.join('\n\n');
+}
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { ColorPaletteSchema, ImageSizeSchema, RENDERING_SPEEDS, STYLES, STYLE_PRESETS } from "./schemas.js";
+
+// Parameters of ideogram_v3_generate that can be varied across a matrix
+export const MATRIX_AXES = [
+  "prompt",
+  "negative_prompt",
+  "image_size",
+  "rendering_speed",
+  "style",
+  "style_preset",
+  "color_palette",
+  "expand_prompt",
+  "seed"
+] as const;
+
+export type MatrixAxis = typeof MATRIX_AXES[number];
+
+const axis = <T extends z.ZodTypeAny>(values: T, description: string) =>
+  z.array(values).min(1, "Each axis needs at least one value").optional().describe(description);
+
+export const MatrixAxesSchema = z.object({
+  prompt: axis(z.string().min(1), "Prompts to compare"),
+  negative_prompt: axis(z.string(), "Negative prompts to compare"),
+  image_size: axis(ImageSizeSchema, "Image sizes to compare"),
+  rendering_speed: axis(z.enum(RENDERING_SPEEDS), "Rendering speeds to compare"),
+  style: axis(z.enum(STYLES), "Styles to compare"),
+  style_preset: axis(z.enum(STYLE_PRESETS), "Style presets to compare"),
+  color_palette: axis(ColorPaletteSchema, "Color palettes to compare"),
+  expand_prompt: axis(z.boolean(), "MagicPrompt settings to compare"),
+  seed: axis(z.number().int(), "Seeds to compare")
+}).strict().describe("Parameters to vary, each mapped to the list of values to try. The matrix is the cartesian product of all axes");
+
+// Hard cap on the number of generations a single matrix call may run
+export const MAX_MATRIX_CELLS = 32;
+
+export interface MatrixCell {
+  index: number;
+  values: Partial<Record<MatrixAxis, unknown>>;
+}
+
+// Expand the axes into their cartesian product, in axis order
+export function expandMatrix(axes: Record<string, unknown>): { axisNames: MatrixAxis[]; cells: MatrixCell[] } {
+  const axisNames: MatrixAxis[] = [];
+
+  for (const [name, values] of Object.entries(axes ?? {})) {
+    if (values === undefined) continue;
+    if (!(MATRIX_AXES as readonly string[]).includes(name)) {
+      throw new Error(`Unknown matrix axis '${name}'. Supported axes: ${MATRIX_AXES.join(', ')}`);
+    }
+    if (!Array.isArray(values) || values.length === 0) {
+      throw new Error(`Matrix axis '${name}' must be a non-empty array of values`);
+    }
+    axisNames.push(name as MatrixAxis);
+  }
+
+  if (axisNames.length === 0) {
+    throw new Error('At least one matrix axis is required');
+  }
+
+  const total = axisNames.reduce((count, name) => count * (axes[name] as unknown[]).length, 1);
+  if (total > MAX_MATRIX_CELLS) {
+    throw new Error(`Matrix expands to ${total} generations, which exceeds the limit of ${MAX_MATRIX_CELLS}. Reduce the number of axis values`);
+  }
+
+  let combinations: Array<Partial<Record<MatrixAxis, unknown>>> = [{}];
+  for (const name of axisNames) {
+    const values = axes[name] as unknown[];
+    combinations = combinations.flatMap(combination => values.map(value => ({ ...combination, [name]: value })));
+  }
+
+  return {
+    axisNames,
+    cells: combinations.map((values, i) => ({ index: i + 1, values }))
+  };
+}
+
+// Short human readable label for an axis value
+export function formatAxisValue(value: unknown): string {
+  if (value === null || value === undefined) return '-';
+  if (typeof value !== 'object') return String(value);
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.width === 'number' && typeof record.height === 'number') {
+    return `${record.width}x${record.height}`;
+  }
+  if (typeof record.name === 'string') return record.name;
+  if (Array.isArray(record.members)) return `custom (${record.members.length} colors)`;
+  return JSON.stringify(value);
+}
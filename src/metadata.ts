@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import { inflateSync } from "zlib";
+import { sniffImageType } from "./references.js";
+
+export type MetadataMode = "embed" | "sidecar" | "both" | "off";
+
+// Provenance written into every downloaded image
+export interface GenerationMetadata {
+  model: string;
+  tool: string;
+  request_id?: string;
+  seed?: number;
+  image_index: number;
+  created_at: string;
+  // The input sent to the fal.ai endpoint
+  input: Record<string, unknown>;
+}
+
+// PNG iTXt keyword and XMP property holding the metadata JSON
+const METADATA_KEYWORD = "fal-ideogram-v3";
+const XMP_NAMESPACE = "urn:fal-ideogram-v3:metadata:1.0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const MAX_JPEG_SEGMENT_BYTES = 65533;
+
+// Read the metadata mode; "embed" falls back to a sidecar file for formats that cannot carry metadata
+export function metadataMode(env: NodeJS.ProcessEnv = process.env): MetadataMode {
+  const mode = (env.IDEOGRAM_METADATA || "embed").toLowerCase();
+  if (mode !== "embed" && mode !== "sidecar" && mode !== "both" && mode !== "off") {
+    throw new Error(`Invalid IDEOGRAM_METADATA "${env.IDEOGRAM_METADATA}". Expected "embed", "sidecar", "both" or "off"`);
+  }
+  return mode;
+}
+
+// Sidecar files sit next to the image: image.png -> image.png.json
+export function sidecarPath(filename: string): string {
+  return `${filename}.json`;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+// Walk the chunks of a PNG file
+function* pngChunks(data: Buffer): Generator<{ type: string; data: Buffer; offset: number }> {
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('ascii', offset + 4, offset + 8);
+    yield { type, data: data.subarray(offset + 8, offset + 8 + length), offset };
+    offset += length + 12;
+  }
+}
+
+function embedPng(data: Buffer, json: string): Buffer | null {
+  const iend = [...pngChunks(data)].find(chunk => chunk.type === "IEND");
+  if (!iend) return null;
+
+  // iTXt: keyword, null, compression flag and method, empty language tag and translated keyword, UTF-8 text
+  const chunk = pngChunk("iTXt", Buffer.concat([
+    Buffer.from(`${METADATA_KEYWORD}\0\0\0\0\0`, 'latin1'),
+    Buffer.from(json, 'utf8')
+  ]));
+  return Buffer.concat([data.subarray(0, iend.offset), chunk, data.subarray(iend.offset)]);
+}
+
+function readPng(data: Buffer): string | null {
+  for (const chunk of pngChunks(data)) {
+    if (chunk.type === "iTXt") {
+      const keywordEnd = chunk.data.indexOf(0);
+      if (chunk.data.toString('latin1', 0, keywordEnd) !== METADATA_KEYWORD) continue;
+
+      const compressed = chunk.data[keywordEnd + 1] === 1;
+      const languageEnd = chunk.data.indexOf(0, keywordEnd + 3);
+      const translatedEnd = chunk.data.indexOf(0, languageEnd + 1);
+      const text = chunk.data.subarray(translatedEnd + 1);
+      return (compressed ? inflateSync(text) : text).toString('utf8');
+    }
+    if (chunk.type === "tEXt") {
+      const keywordEnd = chunk.data.indexOf(0);
+      if (chunk.data.toString('latin1', 0, keywordEnd) === METADATA_KEYWORD) {
+        return chunk.data.toString('latin1', keywordEnd + 1);
+      }
+    }
+  }
+  return null;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&#10;/g, '\n').replace(/&amp;/g, '&');
+}
+
+function xmpPacket(json: string): string {
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>`
+    + `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">`
+    + `<rdf:Description rdf:about="" xmlns:ideogram="${XMP_NAMESPACE}" ideogram:metadata="${escapeXml(json)}"/>`
+    + `</rdf:RDF></x:xmpmeta><?xpacket end="w"?>`;
+}
+
+// Walk the header segments of a JPEG file up to the image data
+function* jpegSegments(data: Buffer): Generator<{ marker: number; data: Buffer; offset: number; end: number }> {
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    if (marker === 0xda || marker === 0xd9) return;
+    const length = data.readUInt16BE(offset + 2);
+    yield { marker, data: data.subarray(offset + 4, offset + 2 + length), offset, end: offset + 2 + length };
+    offset += 2 + length;
+  }
+}
+
+function embedJpeg(data: Buffer, json: string): Buffer | null {
+  const payload = Buffer.from(XMP_HEADER + xmpPacket(json), 'utf8');
+  if (payload.length > MAX_JPEG_SEGMENT_BYTES) return null;
+
+  // Keep the JFIF (APP0) segment first, as readers expect
+  let insertAt = 2;
+  for (const segment of jpegSegments(data)) {
+    if (segment.marker !== 0xe0) break;
+    insertAt = segment.end;
+  }
+
+  const header = Buffer.from([0xff, 0xe1, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([data.subarray(0, insertAt), header, payload, data.subarray(insertAt)]);
+}
+
+function readJpeg(data: Buffer): string | null {
+  for (const segment of jpegSegments(data)) {
+    if (segment.marker !== 0xe1 || !segment.data.subarray(0, XMP_HEADER.length).equals(Buffer.from(XMP_HEADER, 'latin1'))) continue;
+
+    const xmp = segment.data.toString('utf8', XMP_HEADER.length);
+    const match = /ideogram:metadata="([^"]*)"/.exec(xmp);
+    if (match) return unescapeXml(match[1]);
+  }
+  return null;
+}
+
+// Embed metadata in PNG (iTXt chunk) or JPEG (XMP) bytes; returns null when the format is not supported
+export function embedMetadata(data: Buffer, metadata: GenerationMetadata): Buffer | null {
+  const json = JSON.stringify(metadata);
+  switch (sniffImageType(data)) {
+    case "image/png":
+      return embedPng(data, json);
+    case "image/jpeg":
+      return embedJpeg(data, json);
+    default:
+      return null;
+  }
+}
+
+export function readEmbeddedMetadata(data: Buffer): GenerationMetadata | null {
+  let json: string | null = null;
+  switch (sniffImageType(data)) {
+    case "image/png":
+      json = readPng(data);
+      break;
+    case "image/jpeg":
+      json = readJpeg(data);
+      break;
+  }
+  return json ? JSON.parse(json) as GenerationMetadata : null;
+}
+
+// Read the metadata of an image file, from the file itself or from its sidecar
+export async function readMetadataFile(filePath: string): Promise<{ metadata: GenerationMetadata; source: "embedded" | "sidecar" } | null> {
+  const embedded = readEmbeddedMetadata(await fs.promises.readFile(filePath));
+  if (embedded) return { metadata: embedded, source: "embedded" };
+
+  try {
+    const sidecar = await fs.promises.readFile(sidecarPath(filePath), 'utf8');
+    return { metadata: JSON.parse(sidecar) as GenerationMetadata, source: "sidecar" };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
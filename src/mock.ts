@@ -0,0 +1,246 @@
+import { createHash, randomUUID } from "crypto";
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import sharp from "sharp";
+import { BackendResult, GenerationBackend, QueueUpdate, SubscribeOptions } from "./backend.js";
+
+export interface MockBackendOptions {
+  host: string;
+  port: number;
+  latencyMs: number;
+}
+
+// A request submitted to the mock, completed once the latency has passed
+interface MockRequest {
+  endpoint: string;
+  input: Record<string, unknown>;
+  submittedAt: number;
+  cancelled: boolean;
+}
+
+// Pixel sizes of the image_size presets
+const PRESET_SIZES: Record<string, { width: number; height: number }> = {
+  square_hd: { width: 1024, height: 1024 },
+  square: { width: 512, height: 512 },
+  portrait_4_3: { width: 768, height: 1024 },
+  portrait_16_9: { width: 576, height: 1024 },
+  landscape_4_3: { width: 1024, height: 768 },
+  landscape_16_9: { width: 1024, height: 576 }
+};
+
+// Read mock backend settings from the environment
+export function mockBackendOptions(env: NodeJS.ProcessEnv = process.env): MockBackendOptions {
+  const port = Number(env.IDEOGRAM_MOCK_PORT || 0);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid IDEOGRAM_MOCK_PORT "${env.IDEOGRAM_MOCK_PORT}"`);
+  }
+
+  const latency = Number(env.IDEOGRAM_MOCK_LATENCY || 0);
+  if (!Number.isFinite(latency) || latency < 0) {
+    throw new Error(`Invalid IDEOGRAM_MOCK_LATENCY "${env.IDEOGRAM_MOCK_LATENCY}"`);
+  }
+
+  return { host: env.IDEOGRAM_MOCK_HOST || "127.0.0.1", port, latencyMs: latency * 1000 };
+}
+
+function placeholderSize(imageSize: unknown): { width: number; height: number } {
+  if (typeof imageSize === 'string' && PRESET_SIZES[imageSize]) return PRESET_SIZES[imageSize];
+  if (imageSize && typeof imageSize === 'object') {
+    const { width, height } = imageSize as { width?: unknown; height?: unknown };
+    if (typeof width === 'number' && typeof height === 'number') return { width, height };
+  }
+  return PRESET_SIZES.square_hd;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  if (ms <= 0) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Offline stand-in for fal.ai: answers every endpoint with solid color placeholder images served from a local HTTP server.
+// The color and seed are derived from the input, so identical requests give identical images
+export class MockBackend implements GenerationBackend {
+  readonly name = "mock" as const;
+  private readonly requests = new Map<string, MockRequest>();
+  private readonly uploads = new Map<string, { data: Buffer; contentType: string }>();
+  private baseUrl: Promise<string> | null = null;
+
+  constructor(private readonly options: MockBackendOptions) {}
+
+  async subscribe(endpoint: string, options: SubscribeOptions): Promise<BackendResult> {
+    const { abortSignal: signal } = options;
+    signal?.throwIfAborted();
+
+    const requestId = this.register(endpoint, options.input);
+    options.onEnqueue?.(requestId);
+    options.onQueueUpdate?.({ status: "IN_QUEUE", queue_position: 0 });
+    await wait(this.options.latencyMs / 2, signal);
+    options.onQueueUpdate?.({ status: "IN_PROGRESS", logs: [{ message: "Rendering placeholder images" }] });
+    await wait(this.options.latencyMs / 2, signal);
+    options.onQueueUpdate?.({ status: "COMPLETED" });
+
+    return { data: await this.output(endpoint, options.input), requestId };
+  }
+
+  async submit(endpoint: string, options: { input: Record<string, unknown>; webhookUrl?: string }): Promise<{ request_id: string }> {
+    const requestId = this.register(endpoint, options.input);
+
+    if (options.webhookUrl) {
+      const webhookUrl = options.webhookUrl;
+      setTimeout(() => {
+        this.deliverWebhook(requestId, webhookUrl).catch(error => {
+          console.error(`Mock backend failed to deliver the webhook of ${requestId}:`, error);
+        });
+      }, this.options.latencyMs).unref();
+    }
+
+    return { request_id: requestId };
+  }
+
+  async status(_endpoint: string, options: { requestId: string; logs: boolean }): Promise<QueueUpdate> {
+    const request = this.find(options.requestId);
+    if (request.cancelled) {
+      return { status: "CANCELLED", logs: [] };
+    }
+    if (!this.isDone(request)) {
+      return { status: "IN_PROGRESS", logs: options.logs ? [{ message: "Rendering placeholder images" }] : [] };
+    }
+    return { status: "COMPLETED", logs: [] };
+  }
+
+  async result(_endpoint: string, options: { requestId: string }): Promise<BackendResult> {
+    const request = this.find(options.requestId);
+    if (request.cancelled) {
+      throw new Error(`Request ${options.requestId} was cancelled`);
+    }
+    if (!this.isDone(request)) {
+      throw new Error(`Request ${options.requestId} is still in progress`);
+    }
+    return { data: await this.output(request.endpoint, request.input), requestId: options.requestId };
+  }
+
+  async cancel(_endpoint: string, options: { requestId: string }): Promise<void> {
+    const request = this.find(options.requestId);
+    if (request.cancelled) {
+      throw new Error(`Request ${options.requestId} has already been cancelled`);
+    }
+    if (this.isDone(request)) {
+      throw new Error(`Request ${options.requestId} has already completed`);
+    }
+    request.cancelled = true;
+  }
+
+  async upload(file: Blob): Promise<string> {
+    const data = Buffer.from(await file.arrayBuffer());
+    const hash = createHash('sha256').update(data).digest('hex');
+    this.uploads.set(hash, { data, contentType: file.type || "application/octet-stream" });
+    return `${await this.start()}/uploads/${hash}`;
+  }
+
+  describe(): string {
+    const latency = this.options.latencyMs > 0 ? ` with ${this.options.latencyMs / 1000}s latency` : '';
+    return `offline mock${latency} (placeholder images, nothing is sent to fal.ai)`;
+  }
+
+  private register(endpoint: string, input: Record<string, unknown>): string {
+    const requestId = `mock-${randomUUID()}`;
+    this.requests.set(requestId, { endpoint, input, submittedAt: Date.now(), cancelled: false });
+    return requestId;
+  }
+
+  private find(requestId: string): MockRequest {
+    const request = this.requests.get(requestId);
+    if (!request) {
+      throw new Error(`Request ${requestId} not found`);
+    }
+    return request;
+  }
+
+  private isDone(request: MockRequest): boolean {
+    return !request.cancelled && Date.now() - request.submittedAt >= this.options.latencyMs;
+  }
+
+  // The response fal.ai would give, with one placeholder per requested image
+  private async output(endpoint: string, input: Record<string, unknown>): Promise<{ images: Array<{ url: string; content_type: string; file_name: string }>; seed: number }> {
+    const digest = createHash('sha256').update(JSON.stringify({ endpoint, input })).digest();
+    const seed = typeof input.seed === 'number' ? input.seed : digest.readUInt32BE(0) % 2147483647;
+    const { width, height } = placeholderSize(input.image_size);
+    const count = typeof input.num_images === 'number' ? input.num_images : 1;
+    const baseUrl = await this.start();
+
+    const images = Array.from({ length: count }, (_, i) => {
+      const color = createHash('sha256').update(`${digest.toString('hex')}:${i}`).digest('hex').slice(0, 6);
+      return {
+        url: `${baseUrl}/images/${width}x${height}/${color}.png`,
+        content_type: "image/png",
+        file_name: `mock_${color}.png`
+      };
+    });
+    return { images, seed };
+  }
+
+  private async deliverWebhook(requestId: string, webhookUrl: string): Promise<void> {
+    const request = this.find(requestId);
+    if (request.cancelled) return;
+
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ request_id: requestId, status: "OK", payload: await this.output(request.endpoint, request.input) })
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  }
+
+  // Start the image server on first use; it does not keep the process alive
+  private start(): Promise<string> {
+    this.baseUrl ??= new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        this.serve(req.url ?? '/').then(file => {
+          if (!file) {
+            res.writeHead(404, { "content-type": "text/plain" }).end("Not found");
+            return;
+          }
+          res.writeHead(200, { "content-type": file.contentType, "content-length": file.data.length }).end(file.data);
+        }).catch(error => {
+          console.error('Mock backend failed to serve a file:', error);
+          res.writeHead(500, { "content-type": "text/plain" }).end("Internal error");
+        });
+      });
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.unref();
+        const { port } = server.address() as AddressInfo;
+        console.error(`Mock backend serving placeholder images on http://${this.options.host}:${port}`);
+        resolve(`http://${this.options.host}:${port}`);
+      });
+    });
+    return this.baseUrl;
+  }
+
+  private async serve(url: string): Promise<{ data: Buffer; contentType: string } | undefined> {
+    const image = /^\/images\/(\d+)x(\d+)\/([0-9a-f]{6})\.png$/.exec(url);
+    if (image) {
+      const [width, height] = [Number(image[1]), Number(image[2])];
+      if (width < 1 || height < 1 || width > 4096 || height > 4096) return undefined;
+      const data = await sharp({ create: { width, height, channels: 3, background: `#${image[3]}` } }).png().toBuffer();
+      return { data, contentType: "image/png" };
+    }
+
+    const upload = /^\/uploads\/([0-9a-f]{64})$/.exec(url);
+    return upload ? this.uploads.get(upload[1]) : undefined;
+  }
+}
@@ -0,0 +1,359 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { JOB_STATUSES } from "./jobs.js";
+import { LINT_SEVERITIES } from "./lint.js";
+import { COLOR_PALETTE_NAMES } from "./schemas.js";
+import { BUDGET_SCOPES } from "./usage.js";
+
+// Output schemas of the tools, returned as structuredContent next to the text response.
+// Failed calls only return `error`, so every other field is optional
+
+const error = z.string().optional().describe("Why the call failed, set instead of the other fields");
+
+export const DerivedImageOutputSchema = z.object({
+  kind: z.enum(["processed", "thumbnail"]),
+  local_path: z.string().nullable(),
+  storage_location: z.string(),
+  content_type: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+  file_size: z.number().int()
+});
+
+export const ImageOutputSchema = z.object({
+  index: z.number().int(),
+  url: z.string().describe("URL of the image on fal.ai"),
+  local_path: z.string().nullable().describe("Path of the downloaded file, for local storage"),
+  storage_location: z.string().nullable().describe("Where the downloaded file is stored, a path or an s3:// location"),
+  storage_url: z.string().optional().describe("Public URL of the stored file, for object storage"),
+  content_type: z.string(),
+  file_size: z.number().int().optional(),
+  width: z.number().int().optional(),
+  height: z.number().int().optional(),
+  sha256: z.string().optional(),
+  derived: z.array(DerivedImageOutputSchema).optional().describe("Post-processed copies"),
+  postprocess_error: z.string().optional()
+});
+
+export type ImageOutput = z.infer<typeof ImageOutputSchema>;
+
+const BrandKitUsageSchema = z.object({
+  name: z.string(),
+  applied: z.array(z.string()).describe("Kit settings merged into the request"),
+  overridden: z.array(z.string()).describe("Kit settings replaced by values from the call")
+});
+
+const TemplateUsageSchema = z.object({
+  name: z.string(),
+  variables: z.record(z.union([z.string(), z.number(), z.boolean()])).describe("Variable values the prompt was rendered with, defaults included"),
+  applied: z.array(z.string()).describe("Template defaults merged into the request")
+});
+
+const PixelSizeOutputSchema = z.object({ width: z.number().int(), height: z.number().int() });
+
+const SizeResolutionSchema = z.object({
+  requested: z.string().describe("The aspect_ratio or target_size of the call"),
+  aspect_ratio: z.number().describe("Requested width divided by height"),
+  image_size: PixelSizeOutputSchema.describe("The supported size that was generated"),
+  target: PixelSizeOutputSchema.optional().describe("Exact size of the processed copies"),
+  scale: z.number().optional().describe("Factor the images were scaled by to cover the target, above 1 when enlarged")
+}).describe("How aspect_ratio or target_size was mapped to a generation size");
+
+const PromptLintSchema = z.object({
+  texts: z.array(z.object({
+    text: z.string(),
+    words: z.number().int(),
+    characters: z.number().int(),
+    lines: z.number().int(),
+    has_cue: z.boolean().describe("Whether the prompt says the quote is text to render")
+  })).describe("Quoted copy meant to appear in the image"),
+  warnings: z.array(z.object({
+    code: z.string(),
+    severity: z.enum(LINT_SEVERITIES),
+    message: z.string(),
+    text: z.string().optional()
+  })),
+  suggested_prompt: z.string().optional(),
+  suggested_negative_prompt: z.string().optional(),
+  suggested_expand_prompt: z.boolean().optional()
+});
+
+export const promptLintOutputShape = {
+  ...PromptLintSchema.partial().shape,
+  error
+};
+
+const dryRun = z.boolean().optional().describe("Set when the call was a dry run: parameters holds the request that would be sent and nothing was generated");
+
+export const runOutputShape = {
+  dry_run: dryRun,
+  size_resolution: SizeResolutionSchema.optional(),
+  endpoint: z.string().optional(),
+  request_id: z.string().optional(),
+  seed: z.number().int().optional(),
+  history_id: z.string().optional(),
+  cached: z.boolean().optional().describe("Whether the images were served from the result cache"),
+  parameters: z.record(z.unknown()).optional().describe("The effective input sent to fal.ai"),
+  images: z.array(ImageOutputSchema).optional(),
+  error
+};
+
+export const generateOutputShape = {
+  ...runOutputShape,
+  lint: PromptLintSchema.optional().describe("Result of the pre-flight check"),
+  template: TemplateUsageSchema.optional(),
+  brand_kit: BrandKitUsageSchema.optional()
+};
+
+export const reproduceOutputShape = {
+  ...runOutputShape,
+  source_file: z.string().optional(),
+  metadata_source: z.enum(["embedded", "sidecar"]).optional(),
+  overrides: z.array(z.string()).optional().describe("Names of the parameters that were changed")
+};
+
+export const matrixOutputShape = {
+  dry_run: dryRun,
+  axes: z.array(z.string()).optional(),
+  succeeded: z.number().int().optional(),
+  total: z.number().int().optional(),
+  cells: z.array(z.object({
+    index: z.number().int(),
+    values: z.record(z.unknown()).describe("The axis values of this cell"),
+    request_id: z.string().optional(),
+    seed: z.number().int().optional(),
+    history_id: z.string().optional(),
+    parameters: z.record(z.unknown()).optional().describe("The request of this cell, for a dry run"),
+    images: z.array(ImageOutputSchema).optional(),
+    error: z.string().optional()
+  })).optional(),
+  error
+};
+
+export const variationsOutputShape = {
+  dry_run: dryRun,
+  source: z.object({
+    history_id: z.string(),
+    request_id: z.string().optional(),
+    endpoint: z.string(),
+    seed: z.number().int().optional()
+  }).optional().describe("The generation the variations are derived from"),
+  parameter: z.string().optional().describe("The varied parameter, seed unless a parameter was swept"),
+  succeeded: z.number().int().optional(),
+  total: z.number().int().optional(),
+  variations: z.array(z.object({
+    index: z.number().int(),
+    value: z.unknown().describe("The value of the varied parameter"),
+    request_id: z.string().optional(),
+    seed: z.number().int().optional(),
+    history_id: z.string().optional(),
+    parameters: z.record(z.unknown()).optional().describe("The request of this variation, for a dry run"),
+    images: z.array(ImageOutputSchema).optional(),
+    error: z.string().optional()
+  })).optional(),
+  error
+};
+
+export const queueSubmitOutputShape = {
+  dry_run: dryRun,
+  lint: PromptLintSchema.optional().describe("Result of the pre-flight check"),
+  size_resolution: SizeResolutionSchema.optional(),
+  endpoint: z.string().optional(),
+  request_id: z.string().optional(),
+  status: z.enum(JOB_STATUSES).optional(),
+  webhook_url: z.string().optional(),
+  parameters: z.record(z.unknown()).optional().describe("The effective input sent to fal.ai"),
+  template: TemplateUsageSchema.optional(),
+  brand_kit: BrandKitUsageSchema.optional(),
+  error
+};
+
+export const queueStatusOutputShape = {
+  request_id: z.string().optional(),
+  status: z.string().optional().describe("IN_QUEUE, IN_PROGRESS, COMPLETED or CANCELLED"),
+  queue_position: z.number().int().optional(),
+  response_url: z.string().optional(),
+  logs: z.array(z.object({
+    message: z.string(),
+    level: z.string().optional(),
+    timestamp: z.string().optional()
+  })).optional(),
+  error
+};
+
+export const queueCancelOutputShape = {
+  request_id: z.string().optional(),
+  status: z.enum(JOB_STATUSES).optional(),
+  error
+};
+
+export const queueResultOutputShape = {
+  ...runOutputShape,
+  prompt: z.string().optional(),
+  from_local_copy: z.boolean().optional().describe("Whether the images were downloaded earlier, when the request completed")
+};
+
+export const queueListOutputShape = {
+  jobs: z.array(z.object({
+    request_id: z.string(),
+    prompt: z.string(),
+    status: z.enum(JOB_STATUSES),
+    submitted_at: z.string(),
+    updated_at: z.string(),
+    queue_position: z.number().int().optional(),
+    history_id: z.string().optional(),
+    webhook_url: z.string().optional(),
+    error: z.string().optional()
+  })).optional(),
+  pending: z.number().int().optional(),
+  error
+};
+
+const HistoryEntryOutputSchema = z.object({
+  id: z.string(),
+  tool: z.string(),
+  created_at: z.string(),
+  request_id: z.string().optional(),
+  prompt: z.string().optional(),
+  negative_prompt: z.string().optional(),
+  seed: z.number().int().optional(),
+  images: z.array(ImageOutputSchema)
+}).passthrough().describe("A history entry with every parameter recorded for the generation");
+
+export const historySearchOutputShape = {
+  entries: z.array(HistoryEntryOutputSchema).optional(),
+  error
+};
+
+const LineageEntryOutputSchema = z.object({
+  id: z.string(),
+  tool: z.string(),
+  created_at: z.string(),
+  prompt: z.string().optional(),
+  seed: z.number().int().optional(),
+  variation: z.object({ parameter: z.string(), value: z.unknown() }).optional()
+});
+
+export const historyGetOutputShape = {
+  entry: HistoryEntryOutputSchema.optional(),
+  lineage: z.object({
+    ancestors: z.array(LineageEntryOutputSchema).describe("The entries this one is a variation of, root first"),
+    children: z.array(LineageEntryOutputSchema).describe("Variations generated from this entry")
+  }).optional(),
+  error
+};
+
+const PaletteOutputSchema = z.object({
+  name: z.enum(COLOR_PALETTE_NAMES).optional(),
+  members: z.array(z.object({
+    rgb: z.object({ r: z.number(), g: z.number(), b: z.number() }),
+    hex: z.string().optional(),
+    color_weight: z.number().optional()
+  })).optional()
+});
+
+export const paletteOutputShape = {
+  image: z.string().optional(),
+  color_palette: PaletteOutputSchema.optional().describe("Can be passed as color_palette to the generation tools"),
+  error
+};
+
+const BrandKitOutputSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  negative_prompt: z.string().optional(),
+  style: z.string().optional(),
+  style_codes: z.array(z.string()).optional(),
+  style_preset: z.string().optional(),
+  color_palette: PaletteOutputSchema.optional(),
+  image_urls: z.array(z.string()).optional(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export const brandKitOutputShape = {
+  brand_kit: BrandKitOutputSchema.optional(),
+  error
+};
+
+export const brandKitListOutputShape = {
+  brand_kits: z.array(BrandKitOutputSchema).optional(),
+  error
+};
+
+export const brandKitDeleteOutputShape = {
+  name: z.string().optional(),
+  deleted: z.boolean().optional(),
+  error
+};
+
+export const postprocessOutputShape = {
+  files: z.array(z.object({
+    source: z.string(),
+    derived: z.array(DerivedImageOutputSchema),
+    error: z.string().optional()
+  })).optional(),
+  processed: z.number().int().optional(),
+  error
+};
+
+export const cacheStatsOutputShape = {
+  enabled: z.boolean().optional(),
+  file: z.string().optional(),
+  entries: z.number().int().optional(),
+  images: z.number().int().optional(),
+  bytes: z.number().int().optional(),
+  hits: z.number().int().optional(),
+  misses: z.number().int().optional(),
+  oldest: z.string().optional(),
+  newest: z.string().optional(),
+  ttl_seconds: z.number().optional(),
+  max_entries: z.number().int().optional(),
+  max_bytes: z.number().int().optional(),
+  error
+};
+
+export const cacheClearOutputShape = {
+  removed: z.number().int().optional(),
+  error
+};
+
+const UsageTotalsOutputSchema = z.object({
+  name: z.string(),
+  calls: z.number().int(),
+  images: z.number().int(),
+  cost: z.number().describe("Estimated cost in USD")
+});
+
+export const usageReportOutputShape = {
+  from: z.string().optional(),
+  to: z.string().optional(),
+  total: UsageTotalsOutputSchema.optional(),
+  by_day: z.array(UsageTotalsOutputSchema).optional(),
+  by_tool: z.array(UsageTotalsOutputSchema).optional(),
+  by_rendering_speed: z.array(UsageTotalsOutputSchema).optional(),
+  budgets: z.array(z.object({
+    scope: z.enum(BUDGET_SCOPES),
+    name: z.string().describe("The session ID, day or key the budget applies to"),
+    limit: z.number(),
+    spent: z.number(),
+    remaining: z.number()
+  })).optional().describe("The configured budgets that apply to the caller"),
+  prices: z.record(z.number()).optional().describe("Estimated USD price of one image per rendering speed"),
+  error
+};
+
+// Tools with an output schema must return structured content, errors included: add the error text when it is missing
+export function withErrorContent<Args extends unknown[]>(handler: (...args: Args) => Promise<CallToolResult>): (...args: Args) => Promise<CallToolResult> {
+  return async (...args) => {
+    const result = await handler(...args);
+    if (result.isError && !result.structuredContent) {
+      const text = result.content
+        .map(block => (block.type === "text" ? block.text : ''))
+        .filter(Boolean)
+        .join('\n');
+      return { ...result, structuredContent: { error: text.replace(/^Error: /, '') } };
+    }
+    return result;
+  };
+}
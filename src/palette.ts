@@ -0,0 +1,150 @@
+import sharp from "sharp";
+import { ColorPalette, ColorPaletteMember, RGBColor } from "./schemas.js";
+
+// Colors extracted when no explicit count is requested
+export const DEFAULT_PALETTE_COLORS = 5;
+export const MAX_PALETTE_COLORS = 16;
+
+// Images are downscaled to at most this many pixels per side before clustering
+const SAMPLE_SIZE = 128;
+const MAX_ITERATIONS = 20;
+
+// The API accepts color weights between 0.05 and 1
+const MIN_COLOR_WEIGHT = 0.05;
+
+// Pixels with the same 5-bit-per-channel color, clustered as one weighted point
+interface ColorBucket {
+  color: [number, number, number];
+  count: number;
+}
+
+// Parse "#FF6600", "FF6600" or "#F60" into an RGB color
+export function parseHexColor(hex: string): RGBColor {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) {
+    throw new Error(`Invalid hex color "${hex}". Expected a value like #FF6600`);
+  }
+
+  const digits = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1];
+  return {
+    r: parseInt(digits.slice(0, 2), 16),
+    g: parseInt(digits.slice(2, 4), 16),
+    b: parseInt(digits.slice(4, 6), 16)
+  };
+}
+
+export function toHexColor(rgb: RGBColor): string {
+  return `#${[rgb.r, rgb.g, rgb.b].map(channel => channel.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+}
+
+function distanceSquared(a: [number, number, number], b: [number, number, number]): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+function nearestCenter(color: [number, number, number], centers: Array<[number, number, number]>): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  centers.forEach((center, index) => {
+    const distance = distanceSquared(color, center);
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+async function colorBuckets(data: Buffer): Promise<ColorBucket[]> {
+  const { data: pixels } = await sharp(data)
+    .flatten({ background: "#ffffff" })
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: "inside", withoutEnlargement: true })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const sums = new Map<number, { r: number; g: number; b: number; count: number }>();
+  for (let offset = 0; offset + 2 < pixels.length; offset += 3) {
+    const r = pixels[offset];
+    const g = pixels[offset + 1];
+    const b = pixels[offset + 2];
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const sum = sums.get(key) ?? { r: 0, g: 0, b: 0, count: 0 };
+    sum.r += r;
+    sum.g += g;
+    sum.b += b;
+    sum.count++;
+    sums.set(key, sum);
+  }
+
+  return [...sums.values()].map(sum => ({
+    color: [sum.r / sum.count, sum.g / sum.count, sum.b / sum.count] as [number, number, number],
+    count: sum.count
+  }));
+}
+
+// Compute the dominant colors of an image with weighted k-means; weights are each color's share of the image
+export async function extractPalette(data: Buffer, maxColors = DEFAULT_PALETTE_COLORS): Promise<ColorPaletteMember[]> {
+  const buckets = await colorBuckets(data);
+  const total = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+  if (total === 0) {
+    throw new Error("The image has no pixels to extract colors from");
+  }
+
+  // Deterministic seeding: start from the most common color, then favour common colors far from the chosen ones
+  const sorted = [...buckets].sort((a, b) => b.count - a.count);
+  const centers: Array<[number, number, number]> = [[...sorted[0].color]];
+  while (centers.length < Math.min(maxColors, sorted.length)) {
+    let best = sorted[0];
+    let bestScore = -1;
+    for (const bucket of sorted) {
+      const score = bucket.count * Math.min(...centers.map(center => distanceSquared(bucket.color, center)));
+      if (score > bestScore) {
+        best = bucket;
+        bestScore = score;
+      }
+    }
+    if (bestScore <= 0) break;
+    centers.push([...best.color]);
+  }
+
+  let assignments = buckets.map(bucket => nearestCenter(bucket.color, centers));
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const sums = centers.map(() => ({ r: 0, g: 0, b: 0, count: 0 }));
+    buckets.forEach((bucket, index) => {
+      const sum = sums[assignments[index]];
+      sum.r += bucket.color[0] * bucket.count;
+      sum.g += bucket.color[1] * bucket.count;
+      sum.b += bucket.color[2] * bucket.count;
+      sum.count += bucket.count;
+    });
+    sums.forEach((sum, index) => {
+      if (sum.count > 0) centers[index] = [sum.r / sum.count, sum.g / sum.count, sum.b / sum.count];
+    });
+
+    const next = buckets.map(bucket => nearestCenter(bucket.color, centers));
+    const changed = next.some((center, index) => center !== assignments[index]);
+    assignments = next;
+    if (!changed) break;
+  }
+
+  const counts = centers.map(() => 0);
+  buckets.forEach((bucket, index) => {
+    counts[assignments[index]] += bucket.count;
+  });
+
+  return centers
+    .map((center, index) => ({ center, count: counts[index] }))
+    .filter(cluster => cluster.count > 0)
+    .sort((a, b) => b.count - a.count)
+    .map(({ center, count }) => ({
+      rgb: { r: Math.round(center[0]), g: Math.round(center[1]), b: Math.round(center[2]) },
+      color_weight: Math.max(MIN_COLOR_WEIGHT, Math.round((count / total) * 100) / 100)
+    }));
+}
+
+export function formatPalette(palette: ColorPalette): string {
+  if (palette.name) return `Preset: ${palette.name}`;
+  return (palette.members ?? [])
+    .map((member, index) => `${index + 1}. ${toHexColor(member.rgb)} (r: ${member.rgb.r}, g: ${member.rgb.g}, b: ${member.rgb.b})${member.color_weight !== undefined ? `, weight ${member.color_weight}` : ''}`)
+    .join('\n');
+}
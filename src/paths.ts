@@ -0,0 +1,11 @@
+import * as os from 'os';
+import * as path from 'path';
+
+// Root directory for the server's own state (history, job tracking, ...)
+export function dataDir(): string {
+  return path.resolve(process.env.IDEOGRAM_DATA_DIR || path.join(os.homedir(), '.fal-ideogram-v3'));
+}
+
+export function dataPath(...segments: string[]): string {
+  return path.join(dataDir(), ...segments);
+}
@@ -0,0 +1,116 @@
+import * as path from 'path';
+import sharp from "sharp";
+import { z } from "zod";
+
+export const OUTPUT_FORMATS = ["png", "jpeg", "webp", "avif"] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+const CONTENT_TYPES: Record<OutputFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  avif: "image/avif"
+};
+
+const EXTENSIONS: Record<OutputFormat, string> = {
+  png: "png",
+  jpeg: "jpg",
+  webp: "webp",
+  avif: "avif"
+};
+
+const dimension = (name: string) => z.number().int(`${name} must be an integer`).positive(`${name} must be positive`);
+
+export const PostprocessSchema = z.object({
+  format: z.enum(OUTPUT_FORMATS).optional().describe("Convert to this format"),
+  quality: z.number().int().min(1).max(100).optional().describe("Quality for jpeg, webp and avif output (1-100)"),
+  crop: z.object({
+    left: z.number().int().min(0).describe("Left edge of the region in pixels"),
+    top: z.number().int().min(0).describe("Top edge of the region in pixels"),
+    width: dimension("crop width"),
+    height: dimension("crop height")
+  }).optional().describe("Cut out this region of the original image, before resizing"),
+  resize: z.object({
+    width: dimension("resize width").optional(),
+    height: dimension("resize height").optional(),
+    fit: z.enum(["cover", "contain", "fill", "inside", "outside"]).default("cover").describe("How the image is fitted when both width and height are set: cover crops to the exact size, contain letterboxes, fill stretches, inside/outside keep the aspect ratio")
+  }).refine(resize => resize.width !== undefined || resize.height !== undefined, "resize needs a width, a height or both").optional().describe("Resize to these pixel dimensions"),
+  thumbnail: z.object({
+    size: z.number().int().min(16).max(1024).default(256).describe("Longest side of the thumbnail in pixels"),
+    format: z.enum(OUTPUT_FORMATS).optional().describe("Thumbnail format, defaults to the output format")
+  }).optional().describe("Also create a thumbnail"),
+  strip_metadata: z.boolean().default(false).describe("Remove all metadata, including the generation metadata, from the derived files")
+}).describe("Post-processing applied to each downloaded image. The derived files are stored next to the originals");
+
+export type PostprocessOptions = z.output<typeof PostprocessSchema>;
+
+// A file produced from an original image
+export interface DerivedFile {
+  kind: "processed" | "thumbnail";
+  data: Buffer;
+  contentType: string;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+function sourceFormat(format: string | undefined): OutputFormat {
+  if (format === "jpeg" || format === "webp" || format === "avif") return format;
+  if (format === "heif") return "avif";
+  return "png";
+}
+
+function encode(image: sharp.Sharp, format: OutputFormat, quality: number | undefined, keepMetadata: boolean): sharp.Sharp {
+  const encoded = format === "png" ? image.png() : image.toFormat(format, quality !== undefined ? { quality } : {});
+  return keepMetadata ? encoded.keepMetadata() : encoded;
+}
+
+async function render(image: sharp.Sharp, kind: DerivedFile["kind"], format: OutputFormat): Promise<DerivedFile> {
+  const { data, info } = await image.toBuffer({ resolveWithObject: true });
+  return { kind, data, contentType: CONTENT_TYPES[format], extension: EXTENSIONS[format], width: info.width, height: info.height };
+}
+
+// Whether the options produce a processed copy, as opposed to only a thumbnail
+function transforms(options: PostprocessOptions): boolean {
+  return !!(options.format || options.quality !== undefined || options.crop || options.resize || options.strip_metadata);
+}
+
+// Run the post-processing steps on one image
+export async function postprocessImage(data: Buffer, options: PostprocessOptions): Promise<DerivedFile[]> {
+  const metadata = await sharp(data).metadata();
+  const format = options.format ?? sourceFormat(metadata.format);
+  const keepMetadata = !options.strip_metadata;
+  const derived: DerivedFile[] = [];
+
+  if (options.crop && metadata.width && metadata.height) {
+    const { left, top, width, height } = options.crop;
+    if (left + width > metadata.width || top + height > metadata.height) {
+      throw new Error(`The crop region ${width}x${height} at ${left},${top} does not fit inside the ${metadata.width}x${metadata.height} image`);
+    }
+  }
+
+  if (transforms(options)) {
+    let image = sharp(data);
+    if (options.crop) image = image.extract(options.crop);
+    if (options.resize) {
+      image = image.resize(options.resize.width, options.resize.height, { fit: options.resize.fit });
+    }
+    derived.push(await render(encode(image, format, options.quality, keepMetadata), "processed", format));
+  }
+
+  if (options.thumbnail) {
+    const thumbnailFormat = options.thumbnail.format ?? format;
+    let image = sharp(data);
+    if (options.crop) image = image.extract(options.crop);
+    image = image.resize(options.thumbnail.size, options.thumbnail.size, { fit: "inside", withoutEnlargement: true });
+    derived.push(await render(encode(image, thumbnailFormat, options.quality, keepMetadata), "thumbnail", thumbnailFormat));
+  }
+
+  return derived;
+}
+
+// image.png -> image_processed.webp, image_thumb.jpg
+export function derivedFilename(filename: string, file: DerivedFile): string {
+  const stem = path.basename(filename, path.extname(filename));
+  return `${stem}_${file.kind === "thumbnail" ? "thumb" : "processed"}.${file.extension}`;
+}
@@ -0,0 +1,29 @@
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Sends MCP progress notifications for a tool call, when the client asked for them with a progress token
+export class ProgressReporter {
+  private progress = 0;
+  private lastMessage: string | undefined;
+
+  constructor(private readonly extra?: ToolExtra) {}
+
+  // Report a step; repeated messages are skipped, as the progress value must grow with every notification
+  async report(message: string): Promise<void> {
+    const progressToken = this.extra?._meta?.progressToken;
+    if (progressToken === undefined || message === this.lastMessage) return;
+
+    this.lastMessage = message;
+    this.progress++;
+    try {
+      await this.extra!.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress: this.progress, message }
+      });
+    } catch (error) {
+      console.error('Failed to send progress notification:', error);
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, GetPromptRequestSchema, ListPromptsRequestSchema, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { TemplateStore, describeVariable, renderTemplate } from "./templates.js";
+
+// Publish the prompt templates as MCP prompts. The handlers read the templates directory on every request,
+// so templates added or edited on disk show up without a restart
+export function registerTemplatePrompts(server: McpServer, templates: TemplateStore): void {
+  server.server.registerCapabilities({ prompts: {} });
+
+  server.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: (await templates.list()).map(template => ({
+      name: template.name,
+      description: template.description ?? `Prompt template: ${template.prompt}`,
+      arguments: Object.entries(template.variables).map(([name, variable]) => ({
+        name,
+        description: describeVariable(variable),
+        required: variable.default === undefined
+      }))
+    }))
+  }));
+
+  server.server.setRequestHandler(GetPromptRequestSchema, async request => {
+    const { name, arguments: args = {} } = request.params;
+
+    const template = await templates.get(name).catch(error => {
+      throw new McpError(ErrorCode.InternalError, error instanceof Error ? error.message : String(error));
+    });
+    if (!template) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt template "${name}"`);
+    }
+
+    const rendered = renderTemplate(template, args);
+    if (!rendered.success) {
+      throw new McpError(ErrorCode.InvalidParams, rendered.error);
+    }
+
+    const call = { template: template.name, variables: rendered.data.variables };
+    const defaults = Object.entries(template.defaults).filter(([, value]) => value !== undefined);
+    const lines = [
+      `Generate an image with the ideogram_v3_generate tool, passing these arguments:`,
+      '',
+      JSON.stringify(call, null, 2),
+      '',
+      `The template renders this prompt: "${rendered.data.prompt}"`
+    ];
+    if (rendered.data.negative_prompt) {
+      lines.push(`Negative prompt: "${rendered.data.negative_prompt}"`);
+    }
+    if (defaults.length > 0) {
+      lines.push(`Template defaults: ${defaults.map(([field, value]) => `${field}=${JSON.stringify(value)}`).join(', ')}`);
+    }
+
+    return {
+      description: template.description,
+      messages: [{
+        role: "user" as const,
+        content: { type: "text" as const, text: lines.join('\n') }
+      }]
+    };
+  });
+}
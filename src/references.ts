@@ -0,0 +1,248 @@
+import { createHash } from "crypto";
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from "sharp";
+import { fileURLToPath } from "url";
+
+// Documented limit for the total size of style reference images
+export const MAX_REFERENCE_BYTES = 10 * 1024 * 1024;
+
+// Limit for fetching a remote source image, matching the default IDEOGRAM_DOWNLOAD_TIMEOUT
+const SOURCE_TIMEOUT_MS = 60 * 1000;
+
+// Uploaded files are re-used for this long before being uploaded again
+const UPLOAD_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type ReferenceImageType = "image/jpeg" | "image/png" | "image/webp";
+
+interface CachedUpload {
+  url: string;
+  content_type: ReferenceImageType;
+  size: number;
+  uploaded_at: string;
+}
+
+// A reference image read from disk or a data URI, ready to upload
+interface LocalReference {
+  source: string;
+  data: Buffer;
+  contentType: ReferenceImageType;
+  hash: string;
+}
+
+// Identify JPEG, PNG and WebP images by their magic bytes
+export function sniffImageType(data: Buffer): ReferenceImageType | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === "RIFF" && data.toString('ascii', 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  return null;
+}
+
+export function isRemoteUrl(reference: string): boolean {
+  return /^https?:\/\//i.test(reference);
+}
+
+function describeReference(reference: string): string {
+  return reference.startsWith('data:') ? `data URI (${reference.slice(0, 30)}...)` : reference;
+}
+
+function decodeDataUri(reference: string): Buffer {
+  const match = /^data:([^,]*?),(.*)$/s.exec(reference);
+  if (!match) {
+    throw new Error(`Reference image ${describeReference(reference)} is not a valid data URI`);
+  }
+  return match[1].split(';').includes('base64')
+    ? Buffer.from(match[2], 'base64')
+    : Buffer.from(decodeURIComponent(match[2]), 'utf8');
+}
+
+// Resolve a local path, "~/..." or file:// URL to an absolute path
+export function resolveFilePath(reference: string): string {
+  if (reference.startsWith('file://')) return fileURLToPath(reference);
+  if (reference === '~' || reference.startsWith('~/')) return path.join(os.homedir(), reference.slice(1));
+  return path.resolve(reference);
+}
+
+async function readReference(reference: string): Promise<Buffer> {
+  if (reference.startsWith('data:')) return decodeDataUri(reference);
+
+  const filePath = resolveFilePath(reference);
+  try {
+    return await fs.promises.readFile(filePath);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    throw new Error(code === 'ENOENT'
+      ? `Reference image not found: ${filePath}`
+      : `Cannot read reference image ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Read an image given as a URL, a local file path or a data URI
+export async function readImageSource(reference: string, timeoutMs = SOURCE_TIMEOUT_MS): Promise<Buffer> {
+  if (!isRemoteUrl(reference)) return readReference(reference);
+
+  // The timeout covers the whole transfer, so a stalled server cannot hang the tool call
+  try {
+    const response = await fetch(reference, { signal: AbortSignal.timeout(timeoutMs) });
+    if (!response.ok) {
+      throw new Error(`Failed to download ${reference}: HTTP ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`Failed to download ${reference}: timed out after ${timeoutMs / 1000}s`);
+    }
+    throw error;
+  }
+}
+
+// Width and height of image bytes, or nothing when they cannot be read
+export async function imageDimensions(data: Buffer): Promise<{ width: number; height: number } | undefined> {
+  try {
+    const { width, height } = await sharp(data).metadata();
+    return width && height ? { width, height } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Masks must have exactly the width and height of the image they apply to
+export async function checkMaskDimensions(image: string, mask: string, timeoutMs?: number): Promise<void> {
+  const [imageInfo, maskInfo] = await Promise.all([image, mask].map(async (reference) => {
+    const data = await readImageSource(reference, timeoutMs);
+    try {
+      return await sharp(data).metadata();
+    } catch (error) {
+      throw new Error(`Cannot read the dimensions of ${describeReference(reference)}: ${error instanceof Error ? error.message : error}`);
+    }
+  }));
+
+  if (imageInfo.width !== maskInfo.width || imageInfo.height !== maskInfo.height) {
+    throw new Error(`The mask is ${maskInfo.width}x${maskInfo.height} but the image is ${imageInfo.width}x${imageInfo.height}. The mask must have exactly the same dimensions as the image`);
+  }
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+// Read and check every local reference before anything is uploaded
+async function readLocalReferences(references: string[], maxTotalBytes: number): Promise<Map<number, LocalReference>> {
+  const locals = new Map<number, LocalReference>();
+  for (const [index, reference] of references.entries()) {
+    if (isRemoteUrl(reference)) continue;
+
+    const data = await readReference(reference);
+    const contentType = sniffImageType(data);
+    if (!contentType) {
+      throw new Error(`Reference image ${describeReference(reference)} is not a JPEG, PNG or WebP image`);
+    }
+    locals.set(index, { source: reference, data, contentType, hash: createHash('sha256').update(data).digest('hex') });
+  }
+
+  const totalBytes = [...locals.values()].reduce((sum, local) => sum + local.data.length, 0);
+  if (totalBytes > maxTotalBytes) {
+    throw new Error(`Reference images total ${formatMegabytes(totalBytes)}, above the ${formatMegabytes(maxTotalBytes)} limit for style references`);
+  }
+  return locals;
+}
+
+// Uploads local files and data URIs used as reference images to fal storage, caching uploads by content hash.
+// Without a cache file the uploads are only remembered for the life of the process
+export class ReferenceUploader {
+  private cache = new Map<string, CachedUpload>();
+  private loaded = false;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly cacheFile: string | null,
+    private readonly upload: (file: Blob) => Promise<string>
+  ) {}
+
+  // Replace local references with uploaded URLs; remote URLs are passed through unchanged
+  async resolve(references: string[], maxTotalBytes = MAX_REFERENCE_BYTES): Promise<string[]> {
+    const locals = await readLocalReferences(references, maxTotalBytes);
+    if (locals.size === 0) return references;
+
+    await this.load();
+    const resolved = [...references];
+    for (const [index, local] of locals) {
+      resolved[index] = await this.uploadCached(local);
+    }
+    await this.persist();
+    return resolved;
+  }
+
+  // Check references like resolve() without uploading: local references already uploaded get their URL, other files are kept as given
+  // and other data URIs are shortened to their content hash
+  async preview(references: string[], maxTotalBytes = MAX_REFERENCE_BYTES): Promise<string[]> {
+    const locals = await readLocalReferences(references, maxTotalBytes);
+    if (locals.size === 0) return references;
+
+    await this.load();
+    const resolved = [...references];
+    for (const [index, local] of locals) {
+      resolved[index] = this.cachedUrl(local) ?? (local.source.startsWith('data:') ? `data:${local.contentType};sha256=${local.hash}` : references[index]);
+    }
+    return resolved;
+  }
+
+  private cachedUrl(local: LocalReference): string | undefined {
+    const cached = this.cache.get(local.hash);
+    return cached && Date.now() - Date.parse(cached.uploaded_at) < UPLOAD_CACHE_MAX_AGE_MS ? cached.url : undefined;
+  }
+
+  private async uploadCached(local: LocalReference): Promise<string> {
+    const cached = this.cachedUrl(local);
+    if (cached) return cached;
+
+    console.error(`Uploading reference image ${describeReference(local.source)} (${local.data.length} bytes) to fal storage`);
+    const url = await this.upload(new Blob([local.data], { type: local.contentType }));
+    this.cache.set(local.hash, {
+      url,
+      content_type: local.contentType,
+      size: local.data.length,
+      uploaded_at: new Date().toISOString()
+    });
+    return url;
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded || !this.cacheFile) return;
+    this.loaded = true;
+
+    try {
+      const raw = await fs.promises.readFile(this.cacheFile, 'utf8');
+      for (const [hash, entry] of Object.entries(JSON.parse(raw) as Record<string, CachedUpload>)) {
+        this.cache.set(hash, entry);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load upload cache from ${this.cacheFile}:`, error);
+      }
+    }
+  }
+
+  private persist(): Promise<void> {
+    const cacheFile = this.cacheFile;
+    if (!cacheFile) return this.writing;
+
+    this.writing = this.writing.then(async () => {
+      const snapshot = JSON.stringify(Object.fromEntries(this.cache), null, 2);
+      const tempPath = `${cacheFile}.${process.pid}.tmp`;
+      await fs.promises.mkdir(path.dirname(cacheFile), { recursive: true });
+      await fs.promises.writeFile(tempPath, snapshot, 'utf8');
+      await fs.promises.rename(tempPath, cacheFile);
+    }).catch(error => {
+      console.error(`Failed to save upload cache to ${cacheFile}:`, error);
+    });
+    return this.writing;
+  }
+}
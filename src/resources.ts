@@ -0,0 +1,132 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as fs from 'fs';
+import * as path from 'path';
+import { HistoryEntry, HistoryImage, HistoryStore } from "./history.js";
+import { StorageBackend } from "./storage.js";
+
+const IMAGE_URI_PREFIX = "ideogram://images/";
+
+interface CatalogImage {
+  id: string;
+  entry: HistoryEntry;
+  image: HistoryImage;
+}
+
+// Image IDs combine the history entry ID with the image's 1-based index
+function imageId(entry: HistoryEntry, image: HistoryImage): string {
+  return `${entry.id}-${image.index}`;
+}
+
+function imageName(image: HistoryImage, id: string): string {
+  const location = image.local_path ?? image.storage_location;
+  return location ? path.basename(location) : id;
+}
+
+// Every stored image recorded in history, newest first
+async function listCatalog(history: HistoryStore): Promise<CatalogImage[]> {
+  const entries = await history.all();
+  const catalog: CatalogImage[] = [];
+
+  for (const entry of entries.reverse()) {
+    for (const image of entry.images) {
+      if (image.local_path || image.storage_location) {
+        catalog.push({ id: imageId(entry, image), entry, image });
+      }
+    }
+  }
+  return catalog;
+}
+
+async function findImage(history: HistoryStore, id: string): Promise<CatalogImage> {
+  const match = /^(.+)-(\d+)$/.exec(id);
+  const entry = match ? await history.get(match[1]) : undefined;
+  const image = entry?.images.find(img => img.index === Number(match![2]));
+
+  if (!entry || !image) {
+    throw new Error(`Unknown image resource: ${IMAGE_URI_PREFIX}${id}`);
+  }
+  return { id, entry, image };
+}
+
+async function readImageBytes(image: HistoryImage, storage: StorageBackend | null): Promise<Buffer> {
+  if (image.local_path) {
+    return fs.promises.readFile(image.local_path);
+  }
+  if (image.storage_location && storage) {
+    return storage.read(image.storage_location);
+  }
+  throw new Error('Image is not available from the configured storage backend');
+}
+
+function imageMetadata({ id, entry, image }: CatalogImage) {
+  const { images, ...generation } = entry;
+  return {
+    id,
+    uri: `${IMAGE_URI_PREFIX}${id}`,
+    image,
+    generation
+  };
+}
+
+function variableValue(value: string | string[]): string {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Expose downloaded images and their metadata as MCP resources
+export function registerImageResources(server: McpServer, history: HistoryStore, storage: StorageBackend | null): void {
+  server.resource(
+    "generated-image",
+    new ResourceTemplate(`${IMAGE_URI_PREFIX}{id}`, {
+      list: async () => ({
+        resources: (await listCatalog(history)).map(item => ({
+          uri: `${IMAGE_URI_PREFIX}${item.id}`,
+          name: imageName(item.image, item.id),
+          description: item.entry.prompt ? `Generated from prompt: "${item.entry.prompt}"` : `Generated image from request ${item.entry.request_id}`,
+          mimeType: item.image.content_type
+        }))
+      })
+    }),
+    {
+      description: "Images generated by fal-ai/ideogram/v3 and saved by this server"
+    },
+    async (uri, variables) => {
+      const item = await findImage(history, variableValue(variables.id));
+      const data = await readImageBytes(item.image, storage);
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: item.image.content_type,
+          blob: data.toString('base64')
+        }]
+      };
+    }
+  );
+
+  server.resource(
+    "generated-image-metadata",
+    new ResourceTemplate(`${IMAGE_URI_PREFIX}{id}/metadata`, {
+      list: async () => ({
+        resources: (await listCatalog(history)).map(item => ({
+          uri: `${IMAGE_URI_PREFIX}${item.id}/metadata`,
+          name: `${imageName(item.image, item.id)} metadata`,
+          mimeType: "application/json"
+        }))
+      })
+    }),
+    {
+      description: "Generation parameters and storage details for each generated image"
+    },
+    async (uri, variables) => {
+      const item = await findImage(history, variableValue(variables.id));
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(imageMetadata(item), null, 2)
+        }]
+      };
+    }
+  );
+}
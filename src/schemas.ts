@@ -0,0 +1,310 @@
+import { z } from "zod";
+import { DEFAULT_PALETTE_COLORS, MAX_PALETTE_COLORS, parseHexColor } from "./palette.js";
+import { TARGET_FITS } from "./sizes.js";
+
+// Define input schema types
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface RGBColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface ColorPaletteMember {
+  rgb: RGBColor;
+  color_weight?: number;
+}
+
+export interface ColorPalette {
+  members?: ColorPaletteMember[];
+  name?: "EMBER" | "FRESH" | "JUNGLE" | "MAGIC" | "MELON" | "MOSAIC" | "PASTEL" | "ULTRAMARINE";
+}
+
+export const IMAGE_SIZE_PRESETS = ["square_hd", "square", "portrait_4_3", "portrait_16_9", "landscape_4_3", "landscape_16_9"] as const;
+export const RENDERING_SPEEDS = ["TURBO", "BALANCED", "QUALITY"] as const;
+export const STYLES = ["AUTO", "GENERAL", "REALISTIC", "DESIGN"] as const;
+export const COLOR_PALETTE_NAMES = ["EMBER", "FRESH", "JUNGLE", "MAGIC", "MELON", "MOSAIC", "PASTEL", "ULTRAMARINE"] as const;
+export const STYLE_PRESETS = ["80S_ILLUSTRATION", "90S_NOSTALGIA", "ABSTRACT_ORGANIC", "ANALOG_NOSTALGIA", "ART_BRUT", "ART_DECO", "ART_POSTER", "AURA", "AVANT_GARDE", "BAUHAUS", "BLUEPRINT", "BLURRY_MOTION", "BRIGHT_ART", "C4D_CARTOON", "CHILDRENS_BOOK", "COLLAGE", "COLORING_BOOK_I", "COLORING_BOOK_II", "CUBISM", "DARK_AURA", "DOODLE", "DOUBLE_EXPOSURE", "DRAMATIC_CINEMA", "EDITORIAL", "EMOTIONAL_MINIMAL", "ETHEREAL_PARTY", "EXPIRED_FILM", "FLAT_ART", "FLAT_VECTOR", "FOREST_REVERIE", "GEO_MINIMALIST", "GLASS_PRISM", "GOLDEN_HOUR", "GRAFFITI_I", "GRAFFITI_II", "HALFTONE_PRINT", "HIGH_CONTRAST", "HIPPIE_ERA", "ICONIC", "JAPANDI_FUSION", "JAZZY", "LONG_EXPOSURE", "MAGAZINE_EDITORIAL", "MINIMAL_ILLUSTRATION", "MIXED_MEDIA", "MONOCHROME", "NIGHTLIFE", "OIL_PAINTING", "OLD_CARTOONS", "PAINT_GESTURE", "POP_ART", "RETRO_ETCHING", "RIVIERA_POP", "SPOTLIGHT_80S", "STYLIZED_RED", "SURREAL_COLLAGE", "TRAVEL_POSTER", "VINTAGE_GEO", "VINTAGE_POSTER", "WATERCOLOR", "WEIRD", "WOODBLOCK_PRINT"] as const;
+
+const channel = (name: string) => z.number({ invalid_type_error: `${name} must be a number` })
+  .int(`${name} must be an integer`)
+  .min(0, `${name} must be between 0 and 255`)
+  .max(255, `${name} must be between 0 and 255`);
+
+// Hex colors such as "#FF6600" are accepted wherever an RGB color is expected
+export const HexColorSchema = z.string()
+  .regex(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i, "Hex colors must look like '#FF6600'")
+  .transform(parseHexColor);
+
+export const RGBColorSchema: z.ZodType<RGBColor, z.ZodTypeDef, unknown> = z.union([
+  HexColorSchema.describe("A hex color, e.g. '#FF6600'"),
+  z.object({
+    r: channel("r"),
+    g: channel("g"),
+    b: channel("b")
+  })
+], {
+  errorMap: () => ({ message: "Colors must be a hex string like '#FF6600' or an object with r, g and b" })
+});
+
+export const ColorPaletteMemberSchema: z.ZodType<ColorPaletteMember, z.ZodTypeDef, unknown> = z.union([
+  HexColorSchema.transform(rgb => ({ rgb })).describe("A hex color with the default weight, e.g. '#FF6600'"),
+  z.object({
+    rgb: RGBColorSchema,
+    color_weight: z.number()
+      .min(0.05, "color_weight must be between 0.05 and 1")
+      .max(1, "color_weight must be between 0.05 and 1")
+      .optional()
+      .describe("The weight of the color in the color palette (0.05 to 1, default 0.5)")
+  })
+], {
+  errorMap: () => ({ message: "Color palette members must be a hex string like '#FF6600' or an object with rgb and an optional color_weight" })
+});
+
+export const ColorPaletteSchema: z.ZodType<ColorPalette, z.ZodTypeDef, unknown> = z.object({
+  name: z.enum(COLOR_PALETTE_NAMES).optional().describe("A color palette preset value"),
+  members: z.array(ColorPaletteMemberSchema)
+    .min(1, "members must contain at least one color")
+    .optional()
+    .describe("A list of color palette members that define the color palette. Each member is an RGB color with an optional weight or a hex string")
+}).superRefine((palette, ctx) => {
+  if (palette.name && palette.members) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Specify either a preset 'name' or custom 'members', not both" });
+  } else if (!palette.name && !palette.members) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Specify either a preset 'name' or custom 'members'" });
+  }
+}).describe("A color palette for generation, must EITHER be specified via one of the presets (name) or explicitly via RGB colors with optional weights (members)");
+
+const PixelSizeSchema = z.object({
+  width: z.number().int("width must be an integer").positive("width must be positive").describe("The width in pixels"),
+  height: z.number().int("height must be an integer").positive("height must be positive").describe("The height in pixels")
+});
+
+export const ImageSizeSchema = z.union([
+  z.enum(IMAGE_SIZE_PRESETS).describe("Predefined image size"),
+  // fal.ai does not publish limits for custom sizes and rejects the ones it cannot generate, so no range is checked here
+  PixelSizeSchema as z.ZodType<ImageSize>
+], {
+  errorMap: () => ({ message: `image_size must be one of ${IMAGE_SIZE_PRESETS.join(', ')} or an object with integer width and height` })
+}).describe("The resolution of the generated image. Can be a predefined size or custom width/height; custom sizes are passed to fal.ai without a range check, and fal.ai rejects sizes it cannot generate");
+
+// Alternatives to image_size that the server resolves to the closest supported generation size
+export const sizeRequestShape = {
+  aspect_ratio: z.string().min(1).optional().describe("Generate at the supported size closest to this aspect ratio instead of passing image_size: width:height such as '3:2', a number such as '1.5', 'square', or a paper format such as 'A4 portrait' or 'letter landscape'"),
+  target_size: z.union([z.string().min(1), PixelSizeSchema]).optional().describe("Exact pixel size wanted, e.g. '1920x1080' or {width, height}. The closest supported size is generated and the downloaded images are cropped and resized to the target"),
+  allow_upscale: z.boolean().optional().describe("Allow enlarging the generated images when target_size is larger than the generation size. Default: false"),
+  target_fit: z.enum(TARGET_FITS).optional().describe("crop (default) crops and resizes the downloaded images to exactly target_size, none only generates at the closest size")
+};
+
+export const StyleCodeSchema = z.string().regex(/^[0-9A-Fa-f]{8}$/, "Style codes must be 8 character hexadecimal strings, e.g. 'A1B2C3D4'");
+
+// A remote URL, a local file path or a data URI
+export const ReferenceImageSchema = z.string().refine(reference => reference.trim().length > 0, "image reference must not be empty");
+
+// Fields shared by every text-to-image tool; defaults follow the API documentation
+export const generateRequestShape = {
+  prompt: z.string().refine(prompt => prompt.trim().length > 0, "prompt must not be empty").describe("The text prompt to generate an image from"),
+  negative_prompt: z.string().default("").describe("Description of what to exclude from an image. Descriptions in the prompt take precedence to descriptions in the negative prompt"),
+  image_size: ImageSizeSchema.default("square_hd"),
+  rendering_speed: z.enum(RENDERING_SPEEDS).default("BALANCED").describe("The rendering speed to use"),
+  style: z.enum(STYLES).optional().describe("The style type to generate with. Cannot be used with style_codes"),
+  style_codes: z.array(StyleCodeSchema).optional().describe("A list of 8 character hexadecimal codes representing the style of the image. Cannot be used in conjunction with image_urls (style reference images) or style"),
+  style_preset: z.enum(STYLE_PRESETS).optional().describe("Style preset for generation. The chosen style preset will guide the generation."),
+  color_palette: ColorPaletteSchema.optional(),
+  palette_image: ReferenceImageSchema.optional().describe(`Use the dominant colors of this image as the color_palette: an image URL, a local file path or a data URI. Cannot be used with color_palette`),
+  palette_colors: z.number().int("palette_colors must be an integer").min(1, `palette_colors must be between 1 and ${MAX_PALETTE_COLORS}`).max(MAX_PALETTE_COLORS, `palette_colors must be between 1 and ${MAX_PALETTE_COLORS}`).optional().describe(`Maximum number of colors taken from palette_image. Default: ${DEFAULT_PALETTE_COLORS}`),
+  image_urls: z.array(ReferenceImageSchema).optional().describe("A set of images to use as style references (maximum total size 10MB across all style references). Each entry is an image URL, a local file path or a data URI; local files and data URIs are uploaded to fal storage. The images should be in JPEG, PNG or WebP format"),
+  expand_prompt: z.boolean().default(true).describe("Determine if MagicPrompt should be used in generating the request or not"),
+  num_images: z.number().int("num_images must be an integer").min(1, "num_images must be between 1 and 8").max(8, "num_images must be between 1 and 8").default(1).describe("Number of images to generate"),
+  seed: z.number().int("seed must be an integer").optional().describe("Seed for the random number generator"),
+  sync_mode: z.boolean().default(false).describe("If set to true, the function will wait for the image to be generated and uploaded before returning the response")
+};
+
+type OptionalDefaults<T extends z.ZodRawShape> = {
+  [K in keyof T]: T[K] extends z.ZodDefault<infer Inner> ? z.ZodOptional<Inner> : T[K];
+};
+
+// Tool input shape whose defaulted fields are optional instead, so a handler can tell which fields the call set.
+// The defaults are applied when the merged request is validated
+export function optionalDefaults<T extends z.ZodRawShape>(shape: T): OptionalDefaults<T> {
+  const optional: z.ZodRawShape = {};
+  for (const [key, field] of Object.entries(shape)) {
+    if (field instanceof z.ZodDefault) {
+      const description = [field.description, `Default: ${JSON.stringify(field._def.defaultValue())}`].filter(Boolean).join('. ');
+      optional[key] = field.removeDefault().optional().describe(description);
+    } else {
+      optional[key] = field;
+    }
+  }
+  return optional as OptionalDefaults<T>;
+}
+
+// Constraints between fields that a per-field schema cannot express
+function checkFieldCombinations(request: { style?: string; style_codes?: string[]; image_urls?: string[]; color_palette?: unknown; palette_image?: string; palette_colors?: number }, ctx: z.RefinementCtx): void {
+  const hasStyleCodes = !!request.style_codes && request.style_codes.length > 0;
+
+  if (hasStyleCodes && request.style) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["style_codes"], message: "Cannot use both 'style' and 'style_codes' parameters together. Please use only one." });
+  }
+  if (hasStyleCodes && request.image_urls && request.image_urls.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["style_codes"], message: "Cannot use 'style_codes' together with style reference images in 'image_urls'. Please use only one." });
+  }
+  if (request.palette_image && request.color_palette) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["palette_image"], message: "Cannot use both 'color_palette' and 'palette_image'. Please use only one." });
+  }
+  if (request.palette_colors !== undefined && !request.palette_image) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["palette_colors"], message: "'palette_colors' can only be used together with 'palette_image'." });
+  }
+}
+
+export const GenerateRequestSchema = z.object(generateRequestShape).superRefine(checkFieldCombinations);
+
+// Resolved parameters of a text-to-image generation
+export type GenerationParams = z.output<typeof GenerateRequestSchema>;
+
+// Source image and mask of the image-to-image endpoints
+const sourceImageField = ReferenceImageSchema.describe("The image to work on: an image URL, a local file path or a data URI (JPEG, PNG or WebP)");
+const maskImageField = ReferenceImageSchema.describe("The mask marking the area to edit: an image URL, a local file path or a data URI. Must have exactly the same width and height as image_url");
+
+const {
+  prompt,
+  negative_prompt,
+  image_size,
+  rendering_speed,
+  style,
+  style_codes,
+  style_preset,
+  color_palette,
+  palette_image,
+  palette_colors,
+  image_urls,
+  expand_prompt,
+  num_images,
+  seed,
+  sync_mode
+} = generateRequestShape;
+
+// fal-ai/ideogram/v3/edit: mask-based inpainting
+export const editRequestShape = {
+  prompt: prompt.describe("The prompt describing what to fill the masked part of the image with"),
+  image_url: sourceImageField,
+  mask_url: maskImageField,
+  rendering_speed,
+  style_codes,
+  color_palette,
+  palette_image,
+  palette_colors,
+  image_urls,
+  expand_prompt,
+  num_images,
+  seed,
+  sync_mode
+};
+
+// fal-ai/ideogram/v3/remix: reimagine an image with a new prompt
+export const remixRequestShape = {
+  prompt: prompt.describe("The prompt to remix the image with"),
+  image_url: sourceImageField,
+  strength: z.number()
+    .min(0.01, "strength must be between 0.01 and 1")
+    .max(1, "strength must be between 0.01 and 1")
+    .default(0.8)
+    .describe("Strength of the input image in the remix"),
+  negative_prompt,
+  image_size,
+  rendering_speed,
+  style,
+  style_codes,
+  color_palette,
+  palette_image,
+  palette_colors,
+  image_urls,
+  expand_prompt,
+  num_images,
+  seed,
+  sync_mode
+};
+
+// fal-ai/ideogram/v3/reframe: extend an image to a new size
+export const reframeRequestShape = {
+  image_url: sourceImageField,
+  image_size: ImageSizeSchema.describe("The resolution of the reframed image. Can be a predefined size or custom width/height"),
+  rendering_speed,
+  style,
+  style_codes,
+  color_palette,
+  palette_image,
+  palette_colors,
+  image_urls,
+  num_images,
+  seed,
+  sync_mode
+};
+
+// fal-ai/ideogram/v3/replace-background: keep the subject, generate a new background
+export const replaceBackgroundRequestShape = {
+  prompt: prompt.describe("The prompt describing the new background"),
+  image_url: sourceImageField,
+  rendering_speed,
+  style,
+  style_codes,
+  color_palette,
+  palette_image,
+  palette_colors,
+  image_urls,
+  expand_prompt,
+  num_images,
+  seed,
+  sync_mode
+};
+
+export const EditRequestSchema = z.object(editRequestShape).superRefine(checkFieldCombinations);
+export const RemixRequestSchema = z.object(remixRequestShape).superRefine(checkFieldCombinations);
+export const ReframeRequestSchema = z.object(reframeRequestShape).superRefine(checkFieldCombinations);
+export const ReplaceBackgroundRequestSchema = z.object(replaceBackgroundRequestShape).superRefine(checkFieldCombinations);
+
+export type EditParams = z.output<typeof EditRequestSchema>;
+export type RemixParams = z.output<typeof RemixRequestSchema>;
+export type ReframeParams = z.output<typeof ReframeRequestSchema>;
+export type ReplaceBackgroundParams = z.output<typeof ReplaceBackgroundRequestSchema>;
+
+export const BrandKitNameSchema = z.string()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/, "Brand kit names may only contain letters, digits, '-' and '_' (at most 64 characters)");
+
+export const TemplateNameSchema = z.string()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/, "Template names may only contain letters, digits, '-' and '_' (at most 64 characters)");
+
+// Settings a brand kit contributes to every request that references it
+export const brandKitShape = {
+  name: BrandKitNameSchema.describe("Name used to reference the brand kit, e.g. 'acme-summer'"),
+  description: z.string().optional().describe("What the brand kit is for"),
+  negative_prompt: z.string().optional().describe("Negative prompt applied to every request using the kit"),
+  style,
+  style_codes,
+  style_preset,
+  color_palette,
+  image_urls
+};
+
+export const BrandKitSchema = z.object(brandKitShape).superRefine(checkFieldCombinations);
+
+export type BrandKitSettings = z.output<typeof BrandKitSchema>;
+
+export type SchemaResult<T> = { success: true; data: T } | { success: false; error: string };
+
+// Render zod issues as one line per offending field
+export function formatValidationError(error: z.ZodError): string {
+  const lines = error.issues.map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : 'request'}: ${issue.message}`);
+  return `Invalid parameters:\n${lines.join('\n')}`;
+}
+
+export function parseWithSchema<T extends z.ZodTypeAny>(schema: T, value: unknown): SchemaResult<z.output<T>> {
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: formatValidationError(result.error) };
+}
@@ -0,0 +1,197 @@
+import type { PostprocessOptions } from "./postprocess.js";
+import type { ImageSize, SchemaResult } from "./schemas.js";
+
+// Portrait and square resolutions Ideogram V3 generates at; the landscape ones are the same with the sides swapped
+const PORTRAIT_SIZES: Array<[number, number]> = [
+  [512, 1536], [576, 1408], [576, 1472], [576, 1536], [640, 1344], [640, 1408], [640, 1472], [640, 1536],
+  [704, 1152], [704, 1216], [704, 1280], [704, 1344], [704, 1408], [704, 1472], [736, 1312], [768, 1088],
+  [768, 1216], [768, 1280], [768, 1344], [800, 1280], [832, 960], [832, 1024], [832, 1088], [832, 1152],
+  [832, 1216], [832, 1248], [864, 1152], [896, 960], [896, 1024], [896, 1088], [896, 1120], [896, 1152],
+  [960, 1024], [960, 1088], [1024, 1024]
+];
+
+export const GENERATION_SIZES: ImageSize[] = [
+  ...PORTRAIT_SIZES.map(([width, height]) => ({ width, height })),
+  ...PORTRAIT_SIZES.filter(([width, height]) => width !== height).map(([width, height]) => ({ width: height, height: width }))
+];
+
+// Largest side of a target_size, which is only produced by resizing
+const MAX_TARGET_SIDE = 8192;
+
+// Width / height of paper formats in portrait orientation
+const PAPER_RATIOS: Record<string, number> = {
+  letter: 8.5 / 11,
+  legal: 8.5 / 14,
+  tabloid: 11 / 17
+};
+
+export const TARGET_FITS = ["crop", "none"] as const;
+
+// Size parameters that are resolved to an image_size instead of passing one
+export interface SizeRequest {
+  aspect_ratio?: string;
+  target_size?: string | ImageSize;
+  allow_upscale?: boolean;
+  target_fit?: typeof TARGET_FITS[number];
+}
+
+// How a requested aspect ratio or target size was mapped to a generation size
+export interface SizeResolution {
+  requested: string;
+  aspect_ratio: number;
+  image_size: ImageSize;
+  // Exact size of the processed copy, when the images are fitted to a target
+  target?: ImageSize;
+  // Factor the generated images are scaled by to cover the target, above 1 when they are enlarged
+  scale?: number;
+}
+
+function round(value: number, digits = 4): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+// Parse "3:2", "16x9", "1.5", "A4 portrait", "print letter landscape" or "square" into width / height
+export function parseAspectRatio(spec: string): SchemaResult<number> {
+  const words = spec.trim().toLowerCase().split(/\s+/).filter(word => word && word !== "print");
+  const orientation = words[words.length - 1] === "portrait" || words[words.length - 1] === "landscape" ? words.pop() : undefined;
+  const format = words.join(' ');
+
+  let ratio: number;
+  const explicit = /^(\d+(?:\.\d+)?)\s*[:x/]\s*(\d+(?:\.\d+)?)$/.exec(format);
+  if (explicit) {
+    ratio = Number(explicit[1]) / Number(explicit[2]);
+  } else if (/^\d+(?:\.\d+)?$/.test(format)) {
+    ratio = Number(format);
+  } else if (format === "square") {
+    ratio = 1;
+  } else if (/^[abc]\d{1,2}$/.test(format)) {
+    // ISO 216 formats all have sides in the ratio 1:√2
+    ratio = 1 / Math.SQRT2;
+  } else if (PAPER_RATIOS[format]) {
+    ratio = PAPER_RATIOS[format];
+  } else {
+    return { success: false, error: `Unknown aspect_ratio "${spec}". Use width:height such as "3:2", a number such as "1.5", "square", or a paper format such as "A4 portrait" or "letter landscape"` };
+  }
+
+  if (!Number.isFinite(ratio) || ratio <= 0) {
+    return { success: false, error: `Invalid aspect_ratio "${spec}"` };
+  }
+  if (orientation) {
+    ratio = orientation === "landscape" ? Math.max(ratio, 1 / ratio) : Math.min(ratio, 1 / ratio);
+  }
+  if (ratio < 1 / 3 || ratio > 3) {
+    return { success: false, error: `aspect_ratio "${spec}" is outside the range Ideogram V3 generates, from 1:3 to 3:1` };
+  }
+  return { success: true, data: ratio };
+}
+
+// Parse "1920x1080" or { width, height } into a target size
+export function parseTargetSize(spec: string | ImageSize): SchemaResult<ImageSize> {
+  let size: ImageSize;
+  if (typeof spec === 'string') {
+    const match = /^\s*(\d+)\s*[x×]\s*(\d+)\s*$/i.exec(spec);
+    if (!match) {
+      return { success: false, error: `Invalid target_size "${spec}". Use WIDTHxHEIGHT in pixels, e.g. "1920x1080"` };
+    }
+    size = { width: Number(match[1]), height: Number(match[2]) };
+  } else {
+    size = spec;
+  }
+
+  if (size.width < 1 || size.height < 1 || size.width > MAX_TARGET_SIDE || size.height > MAX_TARGET_SIDE) {
+    return { success: false, error: `target_size ${size.width}x${size.height} must be between 1 and ${MAX_TARGET_SIDE} pixels on each side` };
+  }
+  return { success: true, data: size };
+}
+
+// The generation size with the closest aspect ratio, the largest one on a tie
+export function closestGenerationSize(ratio: number): ImageSize {
+  const distance = (size: ImageSize) => Math.abs(Math.log(size.width / size.height) - Math.log(ratio));
+  return GENERATION_SIZES.reduce((best, size) => {
+    const delta = distance(size) - distance(best);
+    if (delta < -1e-9) return size;
+    if (Math.abs(delta) <= 1e-9 && size.width * size.height > best.width * best.height) return size;
+    return best;
+  });
+}
+
+// Resolve aspect_ratio or target_size to an image_size, and the fit to the target to a resize of the downloaded images
+export function resolveSizeRequest<T extends { image_size?: unknown }>(
+  size: SizeRequest,
+  request: T,
+  postprocess?: PostprocessOptions
+): SchemaResult<{ request: T; postprocess?: PostprocessOptions; resolution?: SizeResolution }> {
+  const { aspect_ratio, target_size, allow_upscale = false, target_fit = "crop" } = size;
+
+  if (aspect_ratio === undefined && target_size === undefined) {
+    if (size.allow_upscale !== undefined || size.target_fit !== undefined) {
+      return { success: false, error: "allow_upscale and target_fit can only be used together with target_size." };
+    }
+    return { success: true, data: { request, postprocess } };
+  }
+  if (aspect_ratio !== undefined && target_size !== undefined) {
+    return { success: false, error: "Cannot use both 'aspect_ratio' and 'target_size'. The target size already sets the aspect ratio." };
+  }
+  if (request.image_size !== undefined) {
+    return { success: false, error: `Cannot use 'image_size' together with '${aspect_ratio !== undefined ? 'aspect_ratio' : 'target_size'}'. Please use only one.` };
+  }
+
+  if (aspect_ratio !== undefined) {
+    if (size.allow_upscale !== undefined || size.target_fit !== undefined) {
+      return { success: false, error: "allow_upscale and target_fit can only be used together with target_size." };
+    }
+    const ratio = parseAspectRatio(aspect_ratio);
+    if (!ratio.success) return ratio;
+
+    const image_size = closestGenerationSize(ratio.data);
+    return {
+      success: true,
+      data: {
+        request: { ...request, image_size },
+        postprocess,
+        resolution: { requested: aspect_ratio, aspect_ratio: round(ratio.data), image_size }
+      }
+    };
+  }
+
+  const target = parseTargetSize(target_size!);
+  if (!target.success) return target;
+
+  const image_size = closestGenerationSize(target.data.width / target.data.height);
+  const resolution: SizeResolution = {
+    requested: `${target.data.width}x${target.data.height}`,
+    aspect_ratio: round(target.data.width / target.data.height),
+    image_size
+  };
+  if (target_fit === "none") {
+    return { success: true, data: { request: { ...request, image_size }, postprocess, resolution } };
+  }
+
+  // Scaling to cover the target and cropping the overflow gives exactly the requested pixels
+  const scale = Math.max(target.data.width / image_size.width, target.data.height / image_size.height);
+  if (scale > 1 && !allow_upscale) {
+    return { success: false, error: `target_size ${resolution.requested} is larger than the closest generation size ${image_size.width}x${image_size.height}. Set allow_upscale: true to enlarge the images, or target_fit: "none" to only generate at that size.` };
+  }
+  if (postprocess?.resize) {
+    return { success: false, error: "Cannot use postprocess.resize together with target_size, which already resizes the images. Set target_fit: \"none\" to resize them yourself." };
+  }
+
+  return {
+    success: true,
+    data: {
+      request: { ...request, image_size },
+      postprocess: { ...postprocess, strip_metadata: postprocess?.strip_metadata ?? false, resize: { ...target.data, fit: "cover" } },
+      resolution: { ...resolution, target: target.data, scale: round(scale) }
+    }
+  };
+}
+
+export function formatSizeResolution(resolution: SizeResolution): string {
+  const generated = `${resolution.image_size.width}x${resolution.image_size.height}`;
+  const ratio = round(resolution.image_size.width / resolution.image_size.height, 3);
+  const line = `Requested Size: ${resolution.requested} (aspect ratio ${round(resolution.aspect_ratio, 3)}) -> generated at ${generated} (aspect ratio ${ratio})`;
+  if (!resolution.target) return line;
+
+  const scaling = resolution.scale! > 1 ? `upscaled ${resolution.scale}x` : `scaled ${resolution.scale}x`;
+  return `${line}, cropped and resized to ${resolution.target.width}x${resolution.target.height} (${scaling})`;
+}
@@ -0,0 +1,194 @@
+import { S3Client, GetObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+import { randomBytes } from "crypto";
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Where a saved image ended up, as reported back to the MCP client
+export interface StoredImage {
+  backend: "local" | "s3";
+  location: string;
+  localPath?: string;
+  key?: string;
+  url?: string;
+}
+
+export interface StorageBackend {
+  readonly name: "local" | "s3";
+  save(filename: string, data: Buffer, contentType: string): Promise<StoredImage>;
+  read(location: string): Promise<Buffer>;
+  describe(): string;
+}
+
+export type SubfolderMode = "none" | "date" | "session";
+
+// Identifies this server process when images are grouped per session
+const SESSION_ID = `session_${new Date().toISOString().replace(/[:.]/g, '-')}_${randomBytes(3).toString('hex')}`;
+
+function resolveSubfolder(mode: SubfolderMode): string {
+  switch (mode) {
+    case "date":
+      return new Date().toISOString().slice(0, 10);
+    case "session":
+      return SESSION_ID;
+    default:
+      return "";
+  }
+}
+
+function parseSubfolderMode(value: string | undefined): SubfolderMode {
+  if (!value) return "none";
+  const mode = value.toLowerCase();
+  if (mode === "none" || mode === "date" || mode === "session") {
+    return mode;
+  }
+  throw new Error(`Invalid IDEOGRAM_STORAGE_SUBFOLDER "${value}". Expected one of: none, date, session`);
+}
+
+// Stores images on the local filesystem below a configurable root directory
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = "local" as const;
+
+  constructor(private readonly rootDir: string, private readonly subfolder: SubfolderMode) {}
+
+  async save(filename: string, data: Buffer): Promise<StoredImage> {
+    const dir = path.join(this.rootDir, resolveSubfolder(this.subfolder));
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    // Write through a temp file so an interrupted write never leaves a partial image
+    const filePath = path.join(dir, filename);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      await fs.promises.writeFile(tempPath, data);
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+
+    return {
+      backend: this.name,
+      location: filePath,
+      localPath: filePath
+    };
+  }
+
+  async read(location: string): Promise<Buffer> {
+    return fs.promises.readFile(location);
+  }
+
+  describe(): string {
+    const suffix = this.subfolder === "none" ? "" : ` (grouped by ${this.subfolder})`;
+    return `local directory ${this.rootDir}${suffix}`;
+  }
+}
+
+export interface S3StorageOptions {
+  bucket: string;
+  prefix: string;
+  subfolder: SubfolderMode;
+  region: string;
+  endpoint?: string;
+  forcePathStyle: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  publicUrl?: string;
+}
+
+// Stores images in an S3-compatible object store (AWS S3, MinIO, R2, ...)
+export class S3StorageBackend implements StorageBackend {
+  readonly name = "s3" as const;
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined
+    });
+  }
+
+  async save(filename: string, data: Buffer, contentType: string): Promise<StoredImage> {
+    const key = [this.options.prefix, resolveSubfolder(this.options.subfolder), filename]
+      .filter(Boolean)
+      .join('/');
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType
+    }));
+
+    return {
+      backend: this.name,
+      location: `s3://${this.options.bucket}/${key}`,
+      key,
+      url: this.objectUrl(key)
+    };
+  }
+
+  async read(location: string): Promise<Buffer> {
+    const match = /^s3:\/\/([^/]+)\/(.+)$/.exec(location);
+    if (!match) {
+      throw new Error(`Not an object store location: ${location}`);
+    }
+
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: match[1],
+      Key: match[2]
+    }));
+    if (!response.Body) {
+      throw new Error(`Object has no content: ${location}`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  describe(): string {
+    const prefix = this.options.prefix ? `/${this.options.prefix}` : '';
+    return `object store s3://${this.options.bucket}${prefix}`;
+  }
+
+  private objectUrl(key: string): string | undefined {
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    if (this.options.publicUrl) {
+      return `${this.options.publicUrl.replace(/\/+$/, '')}/${encodedKey}`;
+    }
+    if (this.options.endpoint) {
+      return `${this.options.endpoint.replace(/\/+$/, '')}/${this.options.bucket}/${encodedKey}`;
+    }
+    return `https://${this.options.bucket}.s3.${this.options.region}.amazonaws.com/${encodedKey}`;
+  }
+}
+
+// Select and configure the storage backend from environment variables
+export function createStorageBackend(env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  const backend = (env.IDEOGRAM_STORAGE || "local").toLowerCase();
+  const subfolder = parseSubfolderMode(env.IDEOGRAM_STORAGE_SUBFOLDER);
+
+  if (backend === "local") {
+    const rootDir = path.resolve(env.IDEOGRAM_IMAGES_DIR || path.join(process.cwd(), 'images'));
+    return new LocalStorageBackend(rootDir, subfolder);
+  }
+
+  if (backend === "s3") {
+    if (!env.S3_BUCKET) {
+      throw new Error('S3_BUCKET environment variable is required when IDEOGRAM_STORAGE=s3');
+    }
+    return new S3StorageBackend({
+      bucket: env.S3_BUCKET,
+      prefix: (env.S3_PREFIX || "").replace(/^\/+|\/+$/g, ''),
+      subfolder,
+      region: env.S3_REGION || env.AWS_REGION || "us-east-1",
+      endpoint: env.S3_ENDPOINT,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE ? env.S3_FORCE_PATH_STYLE === "true" : Boolean(env.S3_ENDPOINT),
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      publicUrl: env.S3_PUBLIC_URL
+    });
+  }
+
+  throw new Error(`Invalid IDEOGRAM_STORAGE "${env.IDEOGRAM_STORAGE}". Expected "local" or "s3"`);
+}
@@ -0,0 +1,230 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from "zod";
+import { SchemaResult, TemplateNameSchema, generateRequestShape, optionalDefaults, parseWithSchema } from "./schemas.js";
+
+export const TEMPLATE_VARIABLE_TYPES = ["string", "number", "integer", "boolean", "enum"] as const;
+
+export type VariableValue = string | number | boolean;
+
+// {name} is a placeholder, {{ and }} are literal braces; any other brace is a syntax error
+const TEMPLATE_TOKEN = /\{\{|\}\}|\{([A-Za-z_][A-Za-z0-9_]*)\}|[{}]/g;
+
+const VariableSchema = z.object({
+  type: z.enum(TEMPLATE_VARIABLE_TYPES).default("string"),
+  description: z.string().optional(),
+  values: z.array(z.string().min(1)).min(1).optional().describe("Allowed values of an enum variable"),
+  default: z.union([z.string(), z.number(), z.boolean()]).optional().describe("Value used when the call leaves the variable out; variables without one are required")
+}).strict();
+
+export type TemplateVariable = z.output<typeof VariableSchema>;
+
+const { prompt, negative_prompt, ...generationFields } = generateRequestShape;
+
+// Generation parameters a template can default; the call's values win
+export const TEMPLATE_DEFAULT_FIELDS = Object.keys(generationFields) as Array<keyof typeof generationFields>;
+
+const TemplateSchema = z.object({
+  name: TemplateNameSchema,
+  description: z.string().optional(),
+  prompt: z.string().min(1, "prompt must not be empty"),
+  negative_prompt: z.string().optional(),
+  variables: z.record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Variable names may only contain letters, digits and '_'"), VariableSchema).default({}),
+  defaults: z.object(optionalDefaults(generationFields)).strict().default({})
+}).strict().superRefine((template, ctx) => {
+  for (const field of ["prompt", "negative_prompt"] as const) {
+    const text = template[field];
+    if (text === undefined) continue;
+
+    for (const token of text.matchAll(TEMPLATE_TOKEN)) {
+      if (token[0] === '{' || token[0] === '}') {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `Unmatched '${token[0]}' at position ${token.index}. Write {{ or }} for a literal brace` });
+      } else if (token[1] && !template.variables[token[1]]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `Placeholder {${token[1]}} is not declared in variables` });
+      }
+    }
+  }
+
+  for (const [name, variable] of Object.entries(template.variables)) {
+    if (variable.type === "enum" && !variable.values) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variables", name, "values"], message: "enum variables need a list of values" });
+      continue;
+    }
+    if (variable.type !== "enum" && variable.values) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variables", name, "values"], message: "values is only used by enum variables" });
+    }
+    if (variable.default !== undefined) {
+      const coerced = coerceVariable(variable, variable.default);
+      if (!coerced.success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variables", name, "default"], message: coerced.error });
+      }
+    }
+  }
+});
+
+export type PromptTemplate = z.output<typeof TemplateSchema>;
+
+export interface TemplateMerge<T> {
+  request: T;
+  // Variable values the prompt was rendered with, defaults included
+  variables: Record<string, VariableValue>;
+  // Template defaults merged into the request
+  applied: string[];
+}
+
+// Convert a value to the variable's type; prompt arguments always arrive as strings
+function coerceVariable(variable: TemplateVariable, value: unknown): SchemaResult<VariableValue> {
+  switch (variable.type) {
+    case "string":
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return { success: true, data: String(value) };
+      }
+      return { success: false, error: "Expected a string" };
+
+    case "number":
+    case "integer": {
+      const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      if (!Number.isFinite(number)) {
+        return { success: false, error: `Expected a number, got ${JSON.stringify(value)}` };
+      }
+      if (variable.type === "integer" && !Number.isInteger(number)) {
+        return { success: false, error: `Expected an integer, got ${JSON.stringify(value)}` };
+      }
+      return { success: true, data: number };
+    }
+
+    case "boolean":
+      if (typeof value === 'boolean') return { success: true, data: value };
+      if (value === "true" || value === "false") return { success: true, data: value === "true" };
+      return { success: false, error: `Expected true or false, got ${JSON.stringify(value)}` };
+
+    case "enum":
+      if (variable.values!.includes(String(value))) return { success: true, data: String(value) };
+      return { success: false, error: `Expected one of ${variable.values!.join(', ')}, got ${JSON.stringify(value)}` };
+  }
+}
+
+function renderText(text: string, values: Record<string, VariableValue>): string {
+  return text.replace(TEMPLATE_TOKEN, (token, name: string | undefined) => {
+    if (token === '{{') return '{';
+    if (token === '}}') return '}';
+    return String(values[name!]);
+  });
+}
+
+// Short description of a variable's type, default and allowed values
+export function describeVariable(variable: TemplateVariable): string {
+  const details = [
+    variable.type === "enum" ? `one of ${variable.values!.join(', ')}` : variable.type,
+    variable.default !== undefined ? `default ${JSON.stringify(variable.default)}` : 'required'
+  ];
+  return `${variable.description ? `${variable.description} ` : ''}(${details.join(', ')})`;
+}
+
+// Validate the variables of a call and render the template's prompt and negative prompt
+export function renderTemplate(template: PromptTemplate, variables: Record<string, unknown>): SchemaResult<{ prompt: string; negative_prompt?: string; variables: Record<string, VariableValue> }> {
+  const errors: string[] = [];
+  const values: Record<string, VariableValue> = {};
+
+  for (const name of Object.keys(variables)) {
+    if (!template.variables[name]) {
+      const known = Object.keys(template.variables);
+      errors.push(`- ${name}: Unknown variable. ${known.length > 0 ? `Template "${template.name}" takes ${known.join(', ')}` : `Template "${template.name}" takes no variables`}`);
+    }
+  }
+
+  for (const [name, variable] of Object.entries(template.variables)) {
+    const value = variables[name] ?? variable.default;
+    if (value === undefined) {
+      errors.push(`- ${name}: Missing required variable${variable.description ? ` (${variable.description})` : ''}`);
+      continue;
+    }
+    const coerced = coerceVariable(variable, value);
+    if (coerced.success) {
+      values[name] = coerced.data;
+    } else {
+      errors.push(`- ${name}: ${coerced.error}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { success: false, error: `Invalid variables for template "${template.name}":\n${errors.join('\n')}` };
+  }
+  return {
+    success: true,
+    data: {
+      prompt: renderText(template.prompt, values),
+      negative_prompt: template.negative_prompt !== undefined ? renderText(template.negative_prompt, values) : undefined,
+      variables: values
+    }
+  };
+}
+
+// Render a template into a request; the negative prompt and defaults only fill fields the call left unset
+export function applyTemplate<T extends Record<string, unknown>>(request: T, template: PromptTemplate, variables: Record<string, unknown>): SchemaResult<TemplateMerge<T>> {
+  const rendered = renderTemplate(template, variables);
+  if (!rendered.success) return rendered;
+
+  const merged: Record<string, unknown> = { ...request, prompt: rendered.data.prompt };
+  const applied: string[] = [];
+  if (rendered.data.negative_prompt !== undefined && request.negative_prompt === undefined) {
+    merged.negative_prompt = rendered.data.negative_prompt;
+    applied.push("negative_prompt");
+  }
+  for (const field of TEMPLATE_DEFAULT_FIELDS) {
+    if (template.defaults[field] === undefined || request[field] !== undefined) continue;
+    merged[field] = template.defaults[field];
+    applied.push(field);
+  }
+
+  return { success: true, data: { request: merged as T, variables: rendered.data.variables, applied } };
+}
+
+// Prompt templates stored as one JSON file per template, written by hand
+export class TemplateStore {
+  constructor(readonly dir: string) {}
+
+  private filePath(name: string): string {
+    return path.join(this.dir, `${name}.json`);
+  }
+
+  async get(name: string): Promise<PromptTemplate | undefined> {
+    if (!TemplateNameSchema.safeParse(name).success) return undefined;
+
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.filePath(name), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    const parsed = parseWithSchema(TemplateSchema, { ...JSON.parse(raw), name });
+    if (!parsed.success) {
+      throw new Error(`Template "${name}" in ${this.filePath(name)} is invalid. ${parsed.error}`);
+    }
+    return parsed.data;
+  }
+
+  // Templates that fail to load are skipped with a log message
+  async list(): Promise<PromptTemplate[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const templates: PromptTemplate[] = [];
+    for (const file of files.filter(file => file.endsWith('.json')).sort()) {
+      try {
+        const template = await this.get(path.basename(file, '.json'));
+        if (template) templates.push(template);
+      } catch (error) {
+        console.error(`Skipping template ${file}:`, error);
+      }
+    }
+    return templates;
+  }
+}
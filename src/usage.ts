@@ -0,0 +1,271 @@
+import { randomUUID } from "crypto";
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseDateBound } from "./history.js";
+import { ToolExtra } from "./progress.js";
+import { RENDERING_SPEEDS } from "./schemas.js";
+
+export type RenderingSpeed = typeof RENDERING_SPEEDS[number];
+
+export const BUDGET_SCOPES = ["session", "day", "key"] as const;
+export type BudgetScope = typeof BUDGET_SCOPES[number];
+
+export interface UsageOptions {
+  // Estimated USD price of one image per rendering speed
+  prices: Record<RenderingSpeed, number>;
+  // USD limits; unset scopes are unlimited
+  budgets: Partial<Record<BudgetScope, number>>;
+}
+
+// Who a call is charged to: the MCP session and the key the client authenticated with
+export interface UsageContext {
+  session: string;
+  key: string;
+}
+
+// One charged call, as recorded in the ledger file
+export interface UsageEntry {
+  id: string;
+  created_at: string;
+  tool: string;
+  endpoint: string;
+  request_id?: string;
+  rendering_speed: RenderingSpeed;
+  num_images: number;
+  cost: number;
+  session: string;
+  key: string;
+}
+
+export type UsageCharge = Pick<UsageEntry, "tool" | "endpoint" | "rendering_speed" | "num_images" | "cost">;
+
+// A charge counted against the budgets while its call runs
+export interface UsageReservation {
+  charge: UsageCharge;
+  context: UsageContext;
+  day: string;
+}
+
+export interface UsageTotals {
+  name: string;
+  calls: number;
+  images: number;
+  cost: number;
+}
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  name: string;
+  limit: number;
+  spent: number;
+  remaining: number;
+}
+
+export interface UsageReport {
+  total: UsageTotals;
+  by_day: UsageTotals[];
+  by_tool: UsageTotals[];
+  by_rendering_speed: UsageTotals[];
+}
+
+// Prices of fal-ai/ideogram/v3 per image at the time of writing
+const DEFAULT_PRICES: Record<RenderingSpeed, number> = { TURBO: 0.03, BALANCED: 0.06, QUALITY: 0.09 };
+
+// Identifies this server process; stdio clients have no MCP session ID
+const PROCESS_SESSION = randomUUID();
+
+// Calls over stdio or without authentication
+const LOCAL_KEY = "local";
+
+export class BudgetExceededError extends Error {}
+
+function usdAmount(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const raw = env[name];
+  if (raw === undefined || raw === '') return undefined;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative amount in USD, got "${raw}"`);
+  }
+  return value;
+}
+
+// Read prices and budgets from the environment
+export function usageOptions(env: NodeJS.ProcessEnv = process.env): UsageOptions {
+  const prices = { ...DEFAULT_PRICES };
+  for (const speed of RENDERING_SPEEDS) {
+    prices[speed] = usdAmount(env, `IDEOGRAM_PRICE_${speed}`) ?? prices[speed];
+  }
+
+  return {
+    prices,
+    budgets: {
+      session: usdAmount(env, 'IDEOGRAM_BUDGET_SESSION'),
+      day: usdAmount(env, 'IDEOGRAM_BUDGET_DAILY'),
+      key: usdAmount(env, 'IDEOGRAM_BUDGET_KEY')
+    }
+  };
+}
+
+export function usageContext(extra?: ToolExtra): UsageContext {
+  return { session: extra?.sessionId ?? PROCESS_SESSION, key: extra?.authInfo?.clientId ?? LOCAL_KEY };
+}
+
+// Sums kept to a micro-dollar so floating point noise does not show up in reports
+function roundUsd(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount !== 0 && Math.abs(amount) < 0.01 ? 4 : 2)}`;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function totals(name: string, entries: UsageEntry[]): UsageTotals {
+  return {
+    name,
+    calls: entries.length,
+    images: entries.reduce((sum, entry) => sum + entry.num_images, 0),
+    cost: roundUsd(entries.reduce((sum, entry) => sum + entry.cost, 0))
+  };
+}
+
+function groupTotals(entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): UsageTotals[] {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, group]) => totals(name, group));
+}
+
+// Append-only JSONL ledger of the estimated cost of every call that reached the backend, enforcing the configured budgets
+export class UsageLedger {
+  private entries: UsageEntry[] | null = null;
+  private readonly reservations = new Set<UsageReservation>();
+
+  constructor(private readonly filePath: string, readonly options: UsageOptions) {}
+
+  // Estimated cost of an endpoint input, from its rendering speed and image count
+  estimate(tool: string, endpoint: string, input: Record<string, unknown>): UsageCharge {
+    const rendering_speed = RENDERING_SPEEDS.includes(input.rendering_speed as RenderingSpeed)
+      ? input.rendering_speed as RenderingSpeed
+      : "BALANCED";
+    const num_images = typeof input.num_images === 'number' ? input.num_images : 1;
+    return { tool, endpoint, rendering_speed, num_images, cost: roundUsd(this.options.prices[rendering_speed] * num_images) };
+  }
+
+  // Count a charge against the budgets before the call runs; rejects calls that would exceed a budget
+  async reserve(charge: UsageCharge, context: UsageContext): Promise<UsageReservation> {
+    const entries = await this.load();
+    const reservation = { charge, context, day: today() };
+    // No await between the check and adding the reservation, so concurrent calls cannot both pass
+    for (const status of this.budgetStatuses(entries, context)) {
+      if (status.spent + charge.cost > status.limit + 1e-9) {
+        throw new BudgetExceededError(`This call would cost an estimated ${formatUsd(charge.cost)} (${charge.num_images} ${charge.rendering_speed} image(s)), but only ${formatUsd(status.remaining)} of the ${formatUsd(status.limit)} ${status.scope === "day" ? 'daily' : `per-${status.scope}`} budget is left. Use ideogram_v3_usage_report to see the spending`);
+      }
+    }
+    this.reservations.add(reservation);
+    return reservation;
+  }
+
+  // Record a reserved charge once the backend accepted the call
+  async commit(reservation: UsageReservation, requestId?: string): Promise<UsageEntry> {
+    const entry: UsageEntry = {
+      id: randomUUID(),
+      created_at: new Date().toISOString(),
+      ...reservation.charge,
+      request_id: requestId,
+      ...reservation.context
+    };
+
+    const entries = await this.load();
+    this.reservations.delete(reservation);
+    entries.push(entry);
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+    return entry;
+  }
+
+  // Drop a reservation whose call failed before reaching the backend
+  release(reservation: UsageReservation): void {
+    this.reservations.delete(reservation);
+  }
+
+  // Spending against each configured budget, including calls still running
+  async budgets(context: UsageContext): Promise<BudgetStatus[]> {
+    return this.budgetStatuses(await this.load(), context);
+  }
+
+  private budgetStatuses(entries: UsageEntry[], context: UsageContext): BudgetStatus[] {
+    const day = today();
+    const inScope: Record<BudgetScope, (item: { day: string; session: string; key: string }) => boolean> = {
+      session: item => item.session === context.session,
+      day: item => item.day === day,
+      key: item => item.key === context.key
+    };
+    const names: Record<BudgetScope, string> = { session: context.session, day, key: context.key };
+
+    const statuses: BudgetStatus[] = [];
+    for (const scope of BUDGET_SCOPES) {
+      const limit = this.options.budgets[scope];
+      if (limit === undefined) continue;
+
+      const spent = roundUsd(
+        entries
+          .filter(entry => inScope[scope]({ day: entry.created_at.slice(0, 10), session: entry.session, key: entry.key }))
+          .reduce((sum, entry) => sum + entry.cost, 0) +
+        [...this.reservations]
+          .filter(reservation => inScope[scope]({ day: reservation.day, ...reservation.context }))
+          .reduce((sum, reservation) => sum + reservation.charge.cost, 0)
+      );
+      statuses.push({ scope, name: names[scope], limit, spent, remaining: roundUsd(Math.max(0, limit - spent)) });
+    }
+    return statuses;
+  }
+
+  async report(filter: { from?: string; to?: string }): Promise<UsageReport> {
+    const from = filter.from ? parseDateBound(filter.from, "from") : undefined;
+    const to = filter.to ? parseDateBound(filter.to, "to") : undefined;
+
+    const entries = (await this.load()).filter(entry => {
+      const created = Date.parse(entry.created_at);
+      return (from === undefined || created >= from) && (to === undefined || created <= to);
+    });
+
+    return {
+      total: totals("total", entries),
+      by_day: groupTotals(entries, entry => entry.created_at.slice(0, 10)),
+      by_tool: groupTotals(entries, entry => entry.tool),
+      by_rendering_speed: groupTotals(entries, entry => entry.rendering_speed)
+    };
+  }
+
+  private async load(): Promise<UsageEntry[]> {
+    if (this.entries) return this.entries;
+
+    let raw = '';
+    try {
+      raw = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const entries: UsageEntry[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        console.error(`Skipping corrupt usage line in ${this.filePath}`);
+      }
+    }
+    this.entries ??= entries;
+    return this.entries;
+  }
+}
@@ -0,0 +1,87 @@
+import { randomInt } from "crypto";
+import { z } from "zod";
+import { HistoryEntry, HistoryVariation } from "./history.js";
+import { MatrixAxesSchema } from "./matrix.js";
+
+export const SEED_STRATEGIES = ["neighbors", "random"] as const;
+export type SeedStrategy = typeof SEED_STRATEGIES[number];
+
+// Hard cap on the number of generations a single variations call may run
+export const MAX_VARIATIONS = 16;
+
+// Largest seed drawn for random variations
+const MAX_RANDOM_SEED = 2 ** 31 - 1;
+
+// One parameter of the source swept over a list of values, with the seed locked
+export const VariationSweepSchema = MatrixAxesSchema.omit({ seed: true })
+  .refine(sweep => Object.values(sweep).filter(values => values !== undefined).length === 1, "Sweep exactly one parameter, e.g. {\"style_preset\": [\"POP_ART\", \"WATERCOLOR\"]}")
+  .describe("Sweep one parameter over a list of values while the seed and every other parameter stay fixed, instead of varying the seed");
+
+export type VariationSweep = z.output<typeof VariationSweepSchema>;
+
+// Generation parameters a history entry records, in the order of the endpoint inputs
+const RECORDED_PARAMETERS = [
+  "prompt", "negative_prompt", "image_url", "mask_url", "strength", "image_size", "rendering_speed", "style",
+  "style_codes", "style_preset", "color_palette", "image_urls", "expand_prompt", "num_images", "seed"
+] as const;
+
+// Endpoints of the tools, for entries recorded before history stored the endpoint
+const TOOL_ENDPOINTS: Record<string, string> = {
+  ideogram_v3_generate: "fal-ai/ideogram/v3",
+  ideogram_v3_generate_queue: "fal-ai/ideogram/v3",
+  ideogram_v3_generate_matrix: "fal-ai/ideogram/v3",
+  ideogram_v3_queue_result: "fal-ai/ideogram/v3",
+  ideogram_v3_webhook: "fal-ai/ideogram/v3",
+  ideogram_v3_edit: "fal-ai/ideogram/v3/edit",
+  ideogram_v3_remix: "fal-ai/ideogram/v3/remix",
+  ideogram_v3_reframe: "fal-ai/ideogram/v3/reframe",
+  ideogram_v3_replace_background: "fal-ai/ideogram/v3/replace-background"
+};
+
+export interface PlannedVariation {
+  index: number;
+  variation: HistoryVariation;
+  // Changes to the source parameters
+  overrides: Record<string, unknown>;
+}
+
+// The endpoint a history entry was generated with, if it can be told
+export function entryEndpoint(entry: HistoryEntry): string | undefined {
+  return entry.endpoint ?? TOOL_ENDPOINTS[entry.tool];
+}
+
+// The request of a history entry, as recorded with its resolved seed
+export function entryParameters(entry: HistoryEntry): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const name of RECORDED_PARAMETERS) {
+    if (entry[name] !== undefined) params[name] = entry[name];
+  }
+  return params;
+}
+
+// Seeds or swept values of each variation of a source generated with the given seed
+export function planVariations(seed: number | undefined, options: { count: number; seed_strategy: SeedStrategy; sweep?: VariationSweep }): PlannedVariation[] {
+  const { count, seed_strategy, sweep } = options;
+
+  if (sweep) {
+    if (seed === undefined) {
+      throw new Error("The source generation has no recorded seed, so a sweep cannot lock it. Vary the seed instead");
+    }
+    const [parameter, values] = Object.entries(sweep).find(([, values]) => values !== undefined) as [string, unknown[]];
+    if (values.length > MAX_VARIATIONS) {
+      throw new Error(`Sweep has ${values.length} values, which exceeds the limit of ${MAX_VARIATIONS}`);
+    }
+    return values.map((value, i) => ({ index: i + 1, variation: { parameter, value }, overrides: { [parameter]: value, seed } }));
+  }
+
+  if (seed_strategy === "neighbors" && seed === undefined) {
+    throw new Error("The source generation has no recorded seed to take neighbors of. Use seed_strategy \"random\"");
+  }
+
+  const seeds: number[] = [];
+  while (seeds.length < count) {
+    const next = seed_strategy === "neighbors" ? seed! + seeds.length + 1 : randomInt(0, MAX_RANDOM_SEED);
+    if (next !== seed && !seeds.includes(next)) seeds.push(next);
+  }
+  return seeds.map((value, i) => ({ index: i + 1, variation: { parameter: "seed", value }, overrides: { seed: value } }));
+}
@@ -0,0 +1,202 @@
+import { createHash, createPublicKey, KeyObject, verify } from "crypto";
+import * as http from 'http';
+
+// Body posted by fal.ai when a queued request finishes
+export interface FalWebhookPayload {
+  request_id: string;
+  gateway_request_id?: string;
+  status: "OK" | "ERROR";
+  payload?: unknown;
+  payload_error?: string;
+  error?: string;
+}
+
+export interface WebhookServerOptions {
+  host: string;
+  port: number;
+  path: string;
+  publicUrl?: string;
+  verifySignatures: boolean;
+  jwksUrl: string;
+  publicKeys: string[];
+}
+
+// Result of handing a delivery to the server, mapped to an HTTP status
+export type WebhookDeliveryResult = "accepted" | "unknown_request";
+
+const DEFAULT_JWKS_URL = "https://rest.alpha.fal.ai/.well-known/jwks.json";
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const TIMESTAMP_TOLERANCE_SECONDS = 300;
+const JWKS_CACHE_MS = 24 * 60 * 60 * 1000;
+// A stalled JWKS host must not keep webhook requests open
+const JWKS_TIMEOUT_MS = 10 * 1000;
+
+// Read webhook listener settings; returns null when the listener is disabled
+export function webhookServerOptions(env: NodeJS.ProcessEnv = process.env): WebhookServerOptions | null {
+  if (!env.IDEOGRAM_WEBHOOK_PORT) return null;
+
+  const port = Number(env.IDEOGRAM_WEBHOOK_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid IDEOGRAM_WEBHOOK_PORT "${env.IDEOGRAM_WEBHOOK_PORT}"`);
+  }
+
+  const webhookPath = env.IDEOGRAM_WEBHOOK_PATH || "/fal/webhook";
+  return {
+    host: env.IDEOGRAM_WEBHOOK_HOST || "127.0.0.1",
+    port,
+    path: webhookPath.startsWith('/') ? webhookPath : `/${webhookPath}`,
+    publicUrl: env.IDEOGRAM_WEBHOOK_PUBLIC_URL,
+    verifySignatures: env.IDEOGRAM_WEBHOOK_VERIFY !== "false",
+    jwksUrl: env.IDEOGRAM_WEBHOOK_JWKS_URL || DEFAULT_JWKS_URL,
+    publicKeys: (env.IDEOGRAM_WEBHOOK_PUBLIC_KEYS || "").split(',').map(key => key.trim()).filter(Boolean)
+  };
+}
+
+function ed25519Key(x: string): KeyObject {
+  return createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x }, format: "jwk" });
+}
+
+// Verifies fal.ai webhook signatures (ED25519 over request ID, user ID, timestamp and body hash)
+export class WebhookVerifier {
+  private cachedKeys: KeyObject[] = [];
+  private cachedAt = 0;
+
+  constructor(private readonly options: Pick<WebhookServerOptions, "jwksUrl" | "publicKeys">) {}
+
+  private async keys(): Promise<KeyObject[]> {
+    if (this.options.publicKeys.length > 0) {
+      return this.options.publicKeys.map(ed25519Key);
+    }
+
+    if (this.cachedKeys.length === 0 || Date.now() - this.cachedAt > JWKS_CACHE_MS) {
+      const response = await fetch(this.options.jwksUrl, { signal: AbortSignal.timeout(JWKS_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch webhook JWKS: HTTP ${response.status}`);
+      }
+      const jwks = await response.json() as { keys?: Array<{ x?: string }> };
+      this.cachedKeys = (jwks.keys ?? []).filter(key => key.x).map(key => ed25519Key(key.x!));
+      this.cachedAt = Date.now();
+    }
+    return this.cachedKeys;
+  }
+
+  async verify(headers: http.IncomingHttpHeaders, body: Buffer, now = Date.now()): Promise<string | null> {
+    const requestId = headers['x-fal-webhook-request-id'];
+    const userId = headers['x-fal-webhook-user-id'];
+    const timestamp = headers['x-fal-webhook-timestamp'];
+    const signature = headers['x-fal-webhook-signature'];
+
+    if (typeof requestId !== 'string' || typeof userId !== 'string' || typeof timestamp !== 'string' || typeof signature !== 'string') {
+      return "Missing fal webhook signature headers";
+    }
+
+    const timestampSeconds = Number(timestamp);
+    if (!Number.isFinite(timestampSeconds) || Math.abs(now / 1000 - timestampSeconds) > TIMESTAMP_TOLERANCE_SECONDS) {
+      return "Webhook timestamp is outside the allowed window";
+    }
+
+    const message = Buffer.from([
+      requestId,
+      userId,
+      timestamp,
+      createHash('sha256').update(body).digest('hex')
+    ].join('\n'), 'utf8');
+    const signatureBytes = Buffer.from(signature, 'hex');
+
+    for (const key of await this.keys()) {
+      if (verify(null, message, key, signatureBytes)) {
+        return null;
+      }
+    }
+    return "Webhook signature is invalid";
+  }
+}
+
+function readBody(request: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Webhook body is too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+}
+
+function respond(response: http.ServerResponse, status: number, body: Record<string, unknown>): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+// Start the embedded HTTP listener for fal.ai webhook callbacks
+export async function startWebhookServer(
+  options: WebhookServerOptions,
+  onDelivery: (payload: FalWebhookPayload) => Promise<WebhookDeliveryResult>
+): Promise<http.Server> {
+  const verifier = new WebhookVerifier(options);
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    if (url.pathname !== options.path) {
+      respond(response, 404, { error: "Not found" });
+      return;
+    }
+    if (request.method !== 'POST') {
+      respond(response, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    try {
+      const body = await readBody(request);
+
+      if (options.verifySignatures) {
+        const verificationError = await verifier.verify(request.headers, body);
+        if (verificationError) {
+          console.error(`Rejected webhook delivery: ${verificationError}`);
+          respond(response, 401, { error: verificationError });
+          return;
+        }
+      }
+
+      const payload = JSON.parse(body.toString('utf8')) as FalWebhookPayload;
+      if (!payload || typeof payload.request_id !== 'string') {
+        respond(response, 400, { error: "Webhook body has no request_id" });
+        return;
+      }
+      // The signature covers the request ID header, so a signed body must not name another request
+      if (options.verifySignatures && payload.request_id !== request.headers['x-fal-webhook-request-id']) {
+        console.error(`Rejected webhook delivery: body request ID ${payload.request_id} does not match the signed request ID`);
+        respond(response, 401, { error: "Webhook body request_id does not match the signed request ID" });
+        return;
+      }
+
+      const result = await onDelivery(payload);
+      if (result === "unknown_request") {
+        respond(response, 404, { error: `Unknown request ID: ${payload.request_id}` });
+        return;
+      }
+      respond(response, 200, { ok: true });
+    } catch (error) {
+      console.error('Error handling webhook delivery:', error);
+      respond(response, 400, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => resolve());
+  });
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  console.error(`Webhook listener on http://${options.host}:${port}${options.path}${options.verifySignatures ? '' : ' (signature verification disabled)'}`);
+  return server;
+}
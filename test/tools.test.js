@@ -0,0 +1,678 @@
+// Runs every tool against the offline mock backend. Needs a build: npm run build && node --test test/
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import { createHash, generateKeyPairSync, sign } from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import sharp from 'sharp';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+
+const serverPath = join(dirname(fileURLToPath(import.meta.url)), '..', 'build', 'index.js');
+
+const TOOLS = [
+  'ideogram_v3_generate',
+  'ideogram_v3_generate_matrix',
+  'ideogram_v3_edit',
+  'ideogram_v3_remix',
+  'ideogram_v3_reframe',
+  'ideogram_v3_replace_background',
+  'ideogram_v3_generate_queue',
+  'ideogram_v3_queue_status',
+  'ideogram_v3_queue_result',
+  'ideogram_v3_queue_list',
+  'ideogram_v3_queue_cancel',
+  'ideogram_v3_history_search',
+  'ideogram_v3_history_get',
+  'ideogram_v3_extract_palette',
+  'ideogram_v3_brandkit_create',
+  'ideogram_v3_brandkit_list',
+  'ideogram_v3_brandkit_get',
+  'ideogram_v3_brandkit_delete',
+  'ideogram_v3_reproduce',
+  'ideogram_v3_postprocess',
+  'ideogram_v3_cache_stats',
+  'ideogram_v3_cache_clear',
+  'ideogram_v3_usage_report',
+  'ideogram_v3_prompt_lint',
+  'ideogram_v3_variations'
+];
+
+// Start a server in its own temporary directories and connect a client to it
+async function startServer(env) {
+  const root = fs.mkdtempSync(join(os.tmpdir(), 'ideogram-test-'));
+  const serverEnv = {
+    ...process.env,
+    FAL_KEY: '',
+    IDEOGRAM_DATA_DIR: join(root, 'data'),
+    IDEOGRAM_IMAGES_DIR: join(root, 'images'),
+    IDEOGRAM_QUEUE_POLL_INTERVAL: '0',
+    IDEOGRAM_DOWNLOAD_RETRIES: '0'
+  };
+  delete serverEnv.IDEOGRAM_STORAGE;
+  delete serverEnv.IDEOGRAM_WEBHOOK_PORT;
+  Object.assign(serverEnv, env);
+
+  const transport = new StdioClientTransport({ command: process.execPath, args: [serverPath], env: serverEnv, stderr: 'pipe' });
+  const server = { client: new Client({ name: 'ideogram-tools-test', version: '1.0.0' }), root, output: '' };
+  transport.stderr.on('data', chunk => { server.output += chunk; });
+  await server.client.connect(transport);
+  // Listing the tools makes the client validate structured content against each output schema
+  await server.client.listTools();
+  return server;
+}
+
+// Wait for the server to log a line matching the pattern and return the match
+async function waitForOutput(server, pattern, timeoutMs = 10000) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const match = pattern.exec(server.output);
+    if (match) return match;
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  throw new Error(`Server did not log ${pattern}: ${server.output}`);
+}
+
+async function stopServer({ client, root }) {
+  await client.close();
+  fs.rmSync(root, { recursive: true, force: true });
+}
+
+function text(result) {
+  return result.content.filter(block => block.type === 'text').map(block => block.text).join('\n');
+}
+
+async function call(client, name, args = {}, options) {
+  return client.callTool({ name, arguments: args }, undefined, options);
+}
+
+// Call a tool that must succeed and return its structured content
+async function callOk(client, name, args, options) {
+  const result = await call(client, name, args, options);
+  assert.ok(!result.isError, `${name} failed: ${text(result)}`);
+  assert.ok(result.structuredContent, `${name} returned no structured content`);
+  return result.structuredContent;
+}
+
+async function callError(client, name, args) {
+  const result = await call(client, name, args);
+  assert.equal(result.isError, true, `${name} should have failed: ${text(result)}`);
+  assert.equal(typeof result.structuredContent?.error, 'string');
+  return result.structuredContent.error;
+}
+
+describe('tools against the mock backend', () => {
+  let server;
+  let client;
+  let imagePath;
+  let maskPath;
+
+  before(async () => {
+    server = await startServer({ IDEOGRAM_BACKEND: 'mock', IDEOGRAM_MOCK_LATENCY: '0.2' });
+    client = server.client;
+
+    imagePath = join(server.root, 'source.png');
+    maskPath = join(server.root, 'mask.png');
+    await sharp({ create: { width: 64, height: 48, channels: 3, background: '#3366cc' } }).png().toFile(imagePath);
+    await sharp({ create: { width: 64, height: 48, channels: 3, background: '#ffffff' } }).png().toFile(maskPath);
+  });
+
+  after(async () => {
+    if (server) await stopServer(server);
+  });
+
+  test('lists every tool with an output schema', async () => {
+    const { tools } = await client.listTools();
+    assert.deepEqual(tools.map(tool => tool.name).sort(), [...TOOLS].sort());
+    for (const tool of tools) {
+      assert.ok(tool.outputSchema, `${tool.name} has no output schema`);
+    }
+  });
+
+  test('generate downloads placeholder images and reports progress', async () => {
+    const progress = [];
+    const output = await callOk(client, 'ideogram_v3_generate', { prompt: 'A lighthouse', image_size: 'square', num_images: 2, seed: 11 }, {
+      onprogress: update => progress.push(update.message)
+    });
+
+    assert.equal(output.seed, 11);
+    assert.equal(output.images.length, 2);
+    for (const image of output.images) {
+      assert.ok(fs.existsSync(image.local_path));
+      assert.equal(image.width, 512);
+      assert.equal(image.height, 512);
+    }
+    assert.ok(progress.some(message => message.startsWith('Submitted request mock-')));
+    assert.ok(progress.includes('Downloaded image 2 of 2'));
+  });
+
+  test('generate is deterministic and served from the cache', async () => {
+    const args = { prompt: 'A red kite', image_size: 'square', seed: 5 };
+    const first = await callOk(client, 'ideogram_v3_generate', { ...args, cache: 'bypass' });
+    const second = await callOk(client, 'ideogram_v3_generate', { ...args, cache: 'refresh' });
+    assert.equal(first.images[0].sha256, second.images[0].sha256);
+
+    const cached = await callOk(client, 'ideogram_v3_generate', args);
+    assert.equal(cached.cached, true);
+    assert.equal(cached.request_id, second.request_id);
+  });
+
+  test('dry_run returns the resolved payload without generating', async () => {
+    const output = await callOk(client, 'ideogram_v3_generate', {
+      prompt: 'A forest',
+      style_preset: 'WATERCOLOR',
+      image_urls: [imagePath],
+      dry_run: true
+    });
+
+    assert.equal(output.dry_run, true);
+    assert.equal(output.endpoint, 'fal-ai/ideogram/v3');
+    assert.equal(output.parameters.prompt, 'A forest');
+    assert.equal(output.parameters.style_preset, 'WATERCOLOR');
+    assert.deepEqual(output.parameters.image_urls, [imagePath]);
+    assert.equal(output.images, undefined);
+  });
+
+  test('data URI references are not recorded in full', async () => {
+    const dataUri = `data:image/png;base64,${fs.readFileSync(maskPath).toString('base64')}`;
+    const args = { prompt: 'A data URI harbor', image_urls: [dataUri] };
+
+    const dryRun = await callOk(client, 'ideogram_v3_generate', { ...args, dry_run: true });
+    assert.match(dryRun.parameters.image_urls[0], /^data:image\/png;sha256=[0-9a-f]{64}$/);
+
+    await callOk(client, 'ideogram_v3_generate', args);
+    const search = await callOk(client, 'ideogram_v3_history_search', { text: 'data URI harbor' });
+    const { entry } = await callOk(client, 'ideogram_v3_history_get', { id: search.entries[0].id });
+    assert.match(entry.image_urls[0], /^http:\/\/.+\/uploads\//);
+    // Mock uploads do not outlive the server, so they are not cached on disk
+    assert.equal(fs.existsSync(join(server.root, 'data', 'mock-uploads.json')), false);
+  });
+
+  test('generate_matrix runs every cell', async () => {
+    const output = await callOk(client, 'ideogram_v3_generate_matrix', {
+      base: { prompt: 'A teapot', image_size: 'square' },
+      axes: { seed: [1, 2], rendering_speed: ['TURBO', 'QUALITY'] }
+    });
+    assert.equal(output.total, 4);
+    assert.equal(output.succeeded, 4);
+
+    const dryRun = await callOk(client, 'ideogram_v3_generate_matrix', {
+      base: { prompt: 'A teapot' },
+      axes: { seed: [1, 2] },
+      dry_run: true
+    });
+    assert.deepEqual(dryRun.cells.map(cell => cell.parameters.seed), [1, 2]);
+  });
+
+  test('image-to-image tools accept local files', async () => {
+    const edit = await callOk(client, 'ideogram_v3_edit', { prompt: 'A cat', image_url: imagePath, mask_url: maskPath });
+    assert.equal(edit.endpoint, 'fal-ai/ideogram/v3/edit');
+    assert.match(edit.parameters.image_url, /^http:\/\/127\.0\.0\.1:\d+\/uploads\//);
+
+    const remix = await callOk(client, 'ideogram_v3_remix', { prompt: 'A dog', image_url: imagePath, strength: 0.5, image_size: 'landscape_16_9' });
+    assert.equal(remix.images[0].width, 1024);
+    assert.equal(remix.images[0].height, 576);
+
+    const reframe = await callOk(client, 'ideogram_v3_reframe', { image_url: imagePath, image_size: 'portrait_4_3' });
+    assert.equal(reframe.endpoint, 'fal-ai/ideogram/v3/reframe');
+
+    const background = await callOk(client, 'ideogram_v3_replace_background', { prompt: 'A beach', image_url: imagePath });
+    assert.equal(background.images.length, 1);
+
+    const error = await callError(client, 'ideogram_v3_edit', { prompt: 'A cat', image_url: imagePath, mask_url: join(server.root, 'missing.png') });
+    assert.match(error, /not found/);
+  });
+
+  test('queue tools submit, track, fetch and cancel requests', async () => {
+    const submitted = await callOk(client, 'ideogram_v3_generate_queue', { prompt: 'A queued castle', image_size: 'square' });
+    assert.match(submitted.request_id, /^mock-/);
+
+    const status = await callOk(client, 'ideogram_v3_queue_status', { request_id: submitted.request_id });
+    assert.equal(status.status, 'IN_PROGRESS');
+
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const result = await callOk(client, 'ideogram_v3_queue_result', { request_id: submitted.request_id });
+    assert.equal(result.images.length, 1);
+
+    const cancelled = await callOk(client, 'ideogram_v3_generate_queue', { prompt: 'A cancelled castle' });
+    const cancel = await callOk(client, 'ideogram_v3_queue_cancel', { request_id: cancelled.request_id });
+    assert.equal(cancel.status, 'IN_QUEUE');
+    assert.equal((await callOk(client, 'ideogram_v3_queue_status', { request_id: cancelled.request_id })).status, 'CANCELLED');
+    await callError(client, 'ideogram_v3_queue_cancel', { request_id: cancelled.request_id });
+
+    const list = await callOk(client, 'ideogram_v3_queue_list', {});
+    const statuses = Object.fromEntries(list.jobs.map(job => [job.request_id, job.status]));
+    assert.equal(statuses[submitted.request_id], 'DOWNLOADED');
+    assert.equal(statuses[cancelled.request_id], 'CANCELLED');
+
+    const dryRun = await callOk(client, 'ideogram_v3_generate_queue', { prompt: 'A dry castle', dry_run: true });
+    assert.equal(dryRun.dry_run, true);
+    assert.equal(dryRun.request_id, undefined);
+  });
+
+  test('history tools find earlier generations', async () => {
+    const search = await callOk(client, 'ideogram_v3_history_search', { text: 'lighthouse' });
+    assert.equal(search.entries.length, 1);
+
+    const entry = await callOk(client, 'ideogram_v3_history_get', { id: search.entries[0].id });
+    assert.equal(entry.entry.prompt, 'A lighthouse');
+
+    await callError(client, 'ideogram_v3_history_get', { id: 'does-not-exist' });
+  });
+
+  test('extract_palette reads colors from an image', async () => {
+    const output = await callOk(client, 'ideogram_v3_extract_palette', { image: imagePath, max_colors: 1 });
+    assert.equal(output.color_palette.members[0].hex, '#3366CC');
+
+    // Left half red, right half blue
+    const pixels = Buffer.alloc(32 * 16 * 3);
+    for (let i = 0; i < 32 * 16; i++) pixels.set(i % 32 < 16 ? [255, 0, 0] : [0, 0, 255], i * 3);
+    const twoColors = join(server.root, 'two-colors.png');
+    await sharp(pixels, { raw: { width: 32, height: 16, channels: 3 } }).png().toFile(twoColors);
+
+    const capped = await callOk(client, 'ideogram_v3_generate', { prompt: 'A flag', palette_image: twoColors, palette_colors: 1, dry_run: true });
+    assert.equal(capped.parameters.color_palette.members.length, 1);
+    const full = await callOk(client, 'ideogram_v3_generate', { prompt: 'A flag', palette_image: twoColors, dry_run: true });
+    assert.equal(full.parameters.color_palette.members.length, 2);
+    assert.match(await callError(client, 'ideogram_v3_generate', { prompt: 'A flag', palette_colors: 3 }), /palette_image/);
+  });
+
+  test('brand kit tools store kits that generate applies', async () => {
+    await callOk(client, 'ideogram_v3_brandkit_create', { name: 'test-kit', style_preset: 'POP_ART', negative_prompt: 'blurry' });
+
+    const list = await callOk(client, 'ideogram_v3_brandkit_list', {});
+    assert.deepEqual(list.brand_kits.map(kit => kit.name), ['test-kit']);
+
+    const kit = await callOk(client, 'ideogram_v3_brandkit_get', { name: 'test-kit' });
+    assert.equal(kit.brand_kit.style_preset, 'POP_ART');
+
+    const dryRun = await callOk(client, 'ideogram_v3_generate', { prompt: 'A poster', brand_kit: 'test-kit', dry_run: true });
+    assert.equal(dryRun.parameters.style_preset, 'POP_ART');
+    assert.equal(dryRun.parameters.negative_prompt, 'blurry');
+
+    const deleted = await callOk(client, 'ideogram_v3_brandkit_delete', { name: 'test-kit' });
+    assert.equal(deleted.deleted, true);
+    await callError(client, 'ideogram_v3_brandkit_get', { name: 'test-kit' });
+  });
+
+  test('templates render prompts for generate and the prompts capability', async () => {
+    const templatesDir = join(server.root, 'data', 'templates');
+    fs.mkdirSync(templatesDir, { recursive: true });
+    fs.writeFileSync(join(templatesDir, 'hero.json'), JSON.stringify({
+      prompt: 'hero shot of {product} on {surface}',
+      variables: { product: {}, surface: { default: 'marble' }, count: { type: 'integer', default: 1 } },
+      defaults: { rendering_speed: 'QUALITY', image_size: 'landscape_16_9' }
+    }));
+
+    const { prompts } = await client.listPrompts();
+    assert.deepEqual(prompts.map(prompt => prompt.name), ['hero']);
+    assert.deepEqual(prompts[0].arguments.filter(arg => arg.required).map(arg => arg.name), ['product']);
+
+    const prompt = await client.getPrompt({ name: 'hero', arguments: { product: 'a watch' } });
+    assert.match(prompt.messages[0].content.text, /hero shot of a watch on marble/);
+    await assert.rejects(client.getPrompt({ name: 'hero', arguments: {} }), /product: Missing required variable/);
+
+    const output = await callOk(client, 'ideogram_v3_generate', { template: 'hero', variables: { product: 'a watch', count: 2 }, rendering_speed: 'TURBO', dry_run: true });
+    assert.equal(output.parameters.prompt, 'hero shot of a watch on marble');
+    assert.equal(output.parameters.rendering_speed, 'TURBO');
+    assert.equal(output.parameters.image_size, 'landscape_16_9');
+    assert.deepEqual(output.template.applied, ['image_size']);
+
+    assert.match(await callError(client, 'ideogram_v3_generate', { template: 'hero', variables: { product: 'a watch', size: 'XL' } }), /size: Unknown variable/);
+    assert.match(await callError(client, 'ideogram_v3_generate', { template: 'hero', variables: { product: 'a watch', count: 'two' } }), /count: Expected a number/);
+    assert.match(await callError(client, 'ideogram_v3_generate_queue', { template: 'hero' }), /product: Missing required variable/);
+  });
+
+  test('aspect_ratio and target_size resolve to the closest supported size', async () => {
+    const ratio = await callOk(client, 'ideogram_v3_generate', { prompt: 'A poster', aspect_ratio: 'A4 portrait', dry_run: true });
+    assert.deepEqual(ratio.parameters.image_size, { width: 768, height: 1088 });
+    assert.equal(ratio.size_resolution.requested, 'A4 portrait');
+
+    const target = await callOk(client, 'ideogram_v3_generate', { prompt: 'A banner', target_size: '600x400' });
+    assert.deepEqual(target.size_resolution.image_size, { width: 1248, height: 832 });
+    assert.deepEqual(target.images[0].derived.map(file => [file.width, file.height]), [[600, 400]]);
+
+    assert.match(await callError(client, 'ideogram_v3_generate', { prompt: 'A banner', target_size: '1920x1080' }), /allow_upscale/);
+    assert.match(await callError(client, 'ideogram_v3_generate', { prompt: 'A banner', aspect_ratio: '3:2', image_size: 'square' }), /image_size/);
+  });
+
+  test('prompt_lint flags copy that will not render well', async () => {
+    const lint = await callOk(client, 'ideogram_v3_prompt_lint', { prompt: 'A shop sign reading "Open all night, every night, for all your late snacking needs"', negative_prompt: 'text' });
+    assert.deepEqual(lint.texts.map(text => text.words), [11]);
+    const codes = lint.warnings.map(warning => warning.code);
+    assert.ok(codes.includes('long_text'));
+    assert.ok(codes.includes('negative_blocks_text'));
+    assert.ok(codes.includes('expand_prompt_rewrites_text'));
+    assert.equal(lint.suggested_expand_prompt, false);
+
+    assert.match(await callError(client, 'ideogram_v3_generate', { prompt: 'A sign reading "Hi', lint: 'warn' }), /pre-flight/);
+    assert.match(await callError(client, 'ideogram_v3_generate', { prompt: 'A sign reading "Hi"', lint: 'strict' }), /pre-flight/);
+    const warned = await callOk(client, 'ideogram_v3_generate', { prompt: 'A sign reading "Hi"', lint: 'warn', dry_run: true });
+    assert.equal(warned.lint.texts[0].text, 'Hi');
+  });
+
+  test('variations re-run a history entry over seeds or a swept parameter', async () => {
+    const source = await callOk(client, 'ideogram_v3_generate', { prompt: 'A fox', seed: 100, cache: 'bypass' });
+
+    const seeds = await callOk(client, 'ideogram_v3_variations', { source: source.request_id, count: 2 });
+    assert.equal(seeds.parameter, 'seed');
+    assert.deepEqual(seeds.variations.map(variation => variation.seed), [101, 102]);
+
+    const child = seeds.variations[0].history_id;
+    const sweep = await callOk(client, 'ideogram_v3_variations', { source: child, sweep: { style_preset: ['POP_ART', 'WATERCOLOR'] } });
+    assert.equal(sweep.succeeded, 2);
+    assert.deepEqual(sweep.variations.map(variation => variation.seed), [101, 101]);
+
+    const { entry, lineage } = await callOk(client, 'ideogram_v3_history_get', { id: sweep.variations[1].history_id });
+    assert.equal(entry.style_preset, 'WATERCOLOR');
+    assert.deepEqual(entry.variation, { parameter: 'style_preset', value: 'WATERCOLOR' });
+    assert.deepEqual(lineage.ancestors.map(ancestor => ancestor.id), [source.history_id, child]);
+    assert.equal((await callOk(client, 'ideogram_v3_history_get', { id: child })).lineage.children.length, 2);
+
+    await callError(client, 'ideogram_v3_variations', { source: 'unknown' });
+  });
+
+  test('reproduce re-runs a generation from its file metadata', async () => {
+    const original = await callOk(client, 'ideogram_v3_generate', { prompt: 'A windmill', image_size: 'square', seed: 42, cache: 'bypass' });
+    const file = original.images[0].local_path;
+
+    const dryRun = await callOk(client, 'ideogram_v3_reproduce', { file_path: file, overrides: { num_images: 2 }, dry_run: true });
+    assert.equal(dryRun.parameters.seed, 42);
+    assert.equal(dryRun.parameters.num_images, 2);
+
+    const reproduced = await callOk(client, 'ideogram_v3_reproduce', { file_path: file });
+    assert.equal(reproduced.seed, 42);
+    assert.equal(reproduced.images[0].sha256, original.images[0].sha256);
+  });
+
+  test('postprocess converts files and creates thumbnails', async () => {
+    const output = await callOk(client, 'ideogram_v3_postprocess', { file_paths: [imagePath], format: 'webp', thumbnail: { size: 16 } });
+    assert.equal(output.processed, 1);
+
+    const derived = output.files[0].derived;
+    assert.deepEqual(derived.map(file => file.kind), ['processed', 'thumbnail']);
+    assert.equal(derived[1].width, 16);
+    for (const file of derived) {
+      assert.ok(fs.existsSync(file.local_path));
+    }
+
+    await callError(client, 'ideogram_v3_postprocess', { file_paths: [imagePath] });
+  });
+
+  test('cache tools report and clear cached results', async () => {
+    const stats = await callOk(client, 'ideogram_v3_cache_stats', {});
+    assert.equal(stats.enabled, true);
+    assert.ok(stats.entries >= 1);
+
+    const cleared = await callOk(client, 'ideogram_v3_cache_clear', {});
+    assert.equal(cleared.removed, stats.entries);
+    assert.equal((await callOk(client, 'ideogram_v3_cache_stats', {})).entries, 0);
+  });
+});
+
+describe('usage tracking and budgets', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer({ IDEOGRAM_BACKEND: 'mock', IDEOGRAM_MOCK_LATENCY: '0.5', IDEOGRAM_BUDGET_SESSION: '0.1', IDEOGRAM_PRICE_TURBO: '0.02' });
+  });
+
+  after(async () => {
+    if (server) await stopServer(server);
+  });
+
+  test('usage_report totals charged calls and rejects calls over budget', async () => {
+    const { client } = server;
+    await callOk(client, 'ideogram_v3_generate', { prompt: 'A kite', rendering_speed: 'TURBO', num_images: 2, seed: 3 });
+    // Cache hits and dry runs are free
+    await callOk(client, 'ideogram_v3_generate', { prompt: 'A kite', rendering_speed: 'TURBO', num_images: 2, seed: 3 });
+    await callOk(client, 'ideogram_v3_generate', { prompt: 'A kite', rendering_speed: 'QUALITY', num_images: 4, dry_run: true });
+
+    const error = await callError(client, 'ideogram_v3_generate', { prompt: 'A kite', rendering_speed: 'QUALITY' });
+    assert.match(error, /budget/);
+
+    const report = await callOk(client, 'ideogram_v3_usage_report', {});
+    assert.deepEqual(report.total, { name: 'total', calls: 1, images: 2, cost: 0.04 });
+    assert.deepEqual(report.by_tool.map(totals => totals.name), ['ideogram_v3_generate']);
+    assert.deepEqual(report.by_rendering_speed.map(totals => totals.name), ['TURBO']);
+    assert.equal(report.budgets[0].scope, 'session');
+    assert.equal(report.budgets[0].remaining, 0.06);
+    assert.equal(report.prices.TURBO, 0.02);
+
+    const empty = await callOk(client, 'ideogram_v3_usage_report', { to: '2000-01-01' });
+    assert.equal(empty.total.calls, 0);
+  });
+
+  test('cancelled calls are charged once the request was enqueued', async () => {
+    const { client } = server;
+    const before = (await callOk(client, 'ideogram_v3_usage_report', {})).total;
+
+    const controller = new AbortController();
+    const cancelled = call(client, 'ideogram_v3_generate', { prompt: 'A cancelled kite', rendering_speed: 'TURBO' }, {
+      signal: controller.signal,
+      onprogress: update => {
+        if (update.message.startsWith('Submitted request')) controller.abort();
+      }
+    });
+    await assert.rejects(cancelled);
+
+    // The server records the charge after it sees the cancellation
+    let total = before;
+    for (let attempt = 0; attempt < 20 && total.calls === before.calls; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      total = (await callOk(client, 'ideogram_v3_usage_report', {})).total;
+    }
+    assert.equal(total.calls, before.calls + 1);
+    assert.equal(total.cost, before.cost + 0.02);
+  });
+});
+
+describe('tools without a configured backend', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer({ IDEOGRAM_BACKEND: 'fal' });
+  });
+
+  after(async () => {
+    if (server) await stopServer(server);
+  });
+
+  test('generation tools report the missing FAL_KEY', async () => {
+    const error = await callError(server.client, 'ideogram_v3_generate', { prompt: 'A lighthouse' });
+    assert.match(error, /FAL_KEY/);
+  });
+
+  test('dry_run works without FAL_KEY', async () => {
+    const output = await callOk(server.client, 'ideogram_v3_generate', { prompt: 'A lighthouse', seed: 1, dry_run: true });
+    assert.equal(output.parameters.seed, 1);
+  });
+});
+
+describe('HTTP transport', () => {
+  let child;
+  let root;
+  let baseUrl;
+
+  before(async () => {
+    root = fs.mkdtempSync(join(os.tmpdir(), 'ideogram-test-'));
+    child = spawn(process.execPath, [serverPath], {
+      env: {
+        ...process.env,
+        FAL_KEY: '',
+        IDEOGRAM_BACKEND: 'mock',
+        IDEOGRAM_DATA_DIR: join(root, 'data'),
+        IDEOGRAM_IMAGES_DIR: join(root, 'images'),
+        IDEOGRAM_QUEUE_POLL_INTERVAL: '0',
+        IDEOGRAM_TRANSPORT: 'http',
+        IDEOGRAM_HTTP_PORT: '0',
+        IDEOGRAM_HTTP_AUTH_TOKENS: 'secret-token,other-token'
+      },
+      stdio: ['ignore', 'ignore', 'pipe']
+    });
+
+    // The server logs the port it listens on once it is ready
+    baseUrl = await new Promise((resolve, reject) => {
+      let output = '';
+      child.stderr.on('data', chunk => {
+        output += chunk;
+        const match = /listening on (http:\/\/\S+:\d+)/.exec(output);
+        if (match) resolve(match[1]);
+      });
+      child.once('exit', code => reject(new Error(`Server exited with code ${code}: ${output}`)));
+    });
+  });
+
+  after(() => {
+    child?.kill();
+    if (root) fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('rejects requests without a token', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } } })
+    });
+    assert.equal(response.status, 401);
+
+    const health = await fetch(`${baseUrl}/health`);
+    assert.deepEqual(await health.json(), { status: 'ok' });
+  });
+
+  test('serves tools to clients with a valid token', async () => {
+    const headers = { Authorization: 'Bearer secret-token' };
+    const client = new Client({ name: 'ideogram-http-test', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), { requestInit: { headers } }));
+    try {
+      const { tools } = await client.listTools();
+      assert.equal(tools.length, TOOLS.length);
+
+      const health = await (await fetch(`${baseUrl}/health`, { headers })).json();
+      assert.equal(health.sessions, 1);
+      assert.equal(typeof health.storage, 'string');
+    } finally {
+      await client.close();
+    }
+  });
+
+  test('keeps sessions private to the token that created them', async () => {
+    const client = new Client({ name: 'ideogram-http-test', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), { requestInit: { headers: { Authorization: 'Bearer secret-token' } } });
+    await client.connect(transport);
+    try {
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: {
+          Authorization: 'Bearer other-token',
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          'mcp-session-id': transport.sessionId
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} })
+      });
+      assert.equal(response.status, 404);
+
+      const { tools } = await client.listTools();
+      assert.equal(tools.length, TOOLS.length);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe('webhook listener', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  let server;
+  let client;
+  let imageServer;
+  let webhookUrl;
+  let imageUrl;
+
+  before(async () => {
+    // Stands in for the fal.ai CDN the recorded payload points at
+    const image = await sharp({ create: { width: 16, height: 16, channels: 3, background: '#336699' } }).png().toBuffer();
+    imageServer = http.createServer((request, response) => {
+      response.writeHead(200, { 'Content-Type': 'image/png' });
+      response.end(image);
+    });
+    await new Promise(resolve => imageServer.listen(0, '127.0.0.1', resolve));
+    imageUrl = `http://127.0.0.1:${imageServer.address().port}/recorded.png`;
+
+    server = await startServer({
+      IDEOGRAM_BACKEND: 'mock',
+      // Keeps mock requests in progress, so only the webhook can complete them
+      IDEOGRAM_MOCK_LATENCY: '600',
+      IDEOGRAM_WEBHOOK_PORT: '0',
+      IDEOGRAM_WEBHOOK_PUBLIC_KEYS: publicKey.export({ format: 'jwk' }).x
+    });
+    client = server.client;
+    webhookUrl = (await waitForOutput(server, /Webhook listener on (http:\/\/\S+)/))[1];
+  });
+
+  after(async () => {
+    if (server) await stopServer(server);
+    imageServer?.close();
+  });
+
+  // Post a body with fal.ai signature headers, optionally tampered with
+  async function deliver(body, { requestId = body.request_id, timestamp = Math.floor(Date.now() / 1000), omit, signature } = {}) {
+    const raw = JSON.stringify(body);
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-fal-webhook-request-id': requestId,
+      'x-fal-webhook-user-id': 'test-user',
+      'x-fal-webhook-timestamp': String(timestamp)
+    };
+    const message = [requestId, 'test-user', String(timestamp), createHash('sha256').update(raw).digest('hex')].join('\n');
+    headers['x-fal-webhook-signature'] = signature ?? sign(null, Buffer.from(message), privateKey).toString('hex');
+    if (omit) delete headers[omit];
+    return fetch(webhookUrl, { method: 'POST', headers, body: raw });
+  }
+
+  function recordedPayload(requestId) {
+    return {
+      request_id: requestId,
+      gateway_request_id: requestId,
+      status: 'OK',
+      payload: { images: [{ url: imageUrl, content_type: 'image/png', file_name: 'recorded.png', file_size: 100 }], seed: 1234 }
+    };
+  }
+
+  test('rejects deliveries that fail verification', async () => {
+    const submitted = await callOk(client, 'ideogram_v3_generate_queue', { prompt: 'An unsigned castle' });
+    const body = recordedPayload(submitted.request_id);
+
+    assert.equal((await deliver(body, { signature: '00'.repeat(64) })).status, 401);
+    assert.equal((await deliver(body, { omit: 'x-fal-webhook-signature' })).status, 401);
+    assert.equal((await deliver(body, { timestamp: Math.floor(Date.now() / 1000) - 3600 })).status, 401);
+    assert.equal((await deliver(body, { requestId: 'mock-other-request' })).status, 401);
+
+    const status = await callOk(client, 'ideogram_v3_queue_status', { request_id: submitted.request_id });
+    assert.equal(status.status, 'IN_PROGRESS');
+  });
+
+  test('answers 404 for an unknown request ID', async () => {
+    const response = await deliver(recordedPayload('mock-unknown-request'));
+    assert.equal(response.status, 404);
+  });
+
+  test('stores a signed delivery for queue_result without calling the backend', async () => {
+    const submitted = await callOk(client, 'ideogram_v3_generate_queue', { prompt: 'A signed castle' });
+    const response = await deliver(recordedPayload(submitted.request_id));
+    assert.equal(response.status, 200);
+
+    await waitForOutput(server, new RegExp(`Downloaded results of queued request ${submitted.request_id} from webhook`));
+    // The mock backend would still report the request in progress, so the images come from the delivery
+    const result = await callOk(client, 'ideogram_v3_queue_result', { request_id: submitted.request_id });
+    assert.equal(result.from_local_copy, true);
+    assert.equal(result.images.length, 1);
+    assert.equal(result.seed, 1234);
+  });
+});